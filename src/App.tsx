@@ -12,6 +12,11 @@ import ResetPassword from "./pages/ResetPassword";
 import About from "./pages/About";
 import NotFound from "./pages/NotFound";
 import Admin from './pages/Admin';
+import Scorebook from "./pages/Scorebook";
+import Recap from "./pages/Recap";
+import Trips from "./pages/Trips";
+import Trip from "./pages/Trip";
+import Ballparks from "./pages/Ballparks";
 
 const queryClient = new QueryClient();
 
@@ -26,10 +31,15 @@ const App = () => (
             <Route path="/" element={<Games />} />
             <Route path="/diary" element={<Diary />} />
             <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/ballparks" element={<Ballparks />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/reset-password" element={<ResetPassword />} />
             <Route path="/about" element={<About />} />
             <Route path="/admin" element={<Admin />} />
+            <Route path="/scorebook/:season" element={<Scorebook />} />
+            <Route path="/recap/:season" element={<Recap />} />
+            <Route path="/trips" element={<Trips />} />
+            <Route path="/trips/:tripId" element={<Trip />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
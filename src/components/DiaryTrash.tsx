@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { differenceInCalendarDays, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useLoggedGames } from '@/hooks/useLoggedGames';
+import { useRestoreGameLog, usePurgeGameLogs, TRASH_RETENTION_DAYS } from '@/hooks/useGameLogs';
+import { useToast } from '@/hooks/use-toast';
+import { getTeamAbbreviation } from '@/utils/teamLogos';
+
+interface DiaryTrashProps {
+  onBack: () => void;
+}
+
+const DiaryTrash = ({ onBack }: DiaryTrashProps) => {
+  const [purgeIds, setPurgeIds] = useState<string[] | null>(null);
+  const { data: trashedGames = [], isLoading } = useLoggedGames({ mode: '', trash: true });
+  const restoreGameLog = useRestoreGameLog();
+  const purgeGameLogs = usePurgeGameLogs();
+  const { toast } = useToast();
+
+  const handleRestore = async (gameLogId: string) => {
+    try {
+      await restoreGameLog.mutateAsync(gameLogId);
+      toast({
+        title: 'Restored',
+        description: 'The entry is back in your diary.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to restore diary entry.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purgeIds) return;
+
+    try {
+      await purgeGameLogs.mutateAsync(purgeIds);
+      toast({
+        title: 'Deleted',
+        description: purgeIds.length === 1
+          ? 'The entry was permanently deleted.'
+          : `${purgeIds.length} entries were permanently deleted.`,
+      });
+      setPurgeIds(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete diary entries.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const getDaysLeft = (deletedAt: string) => {
+    const daysInTrash = differenceInCalendarDays(new Date(), new Date(deletedAt));
+    return Math.max(TRASH_RETENTION_DAYS - daysInTrash, 0);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <Button variant="ghost" size="sm" onClick={onBack} className="-ml-2">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Diary
+        </Button>
+        {trashedGames.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
+            onClick={() => setPurgeIds(trashedGames.map(game => game.logData.id))}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Empty Trash
+          </Button>
+        )}
+      </div>
+
+      <h2 className="text-xl font-semibold text-gray-900">Trash</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Removed entries are kept for {TRASH_RETENTION_DAYS} days before they are permanently deleted.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-field-green" />
+        </div>
+      ) : trashedGames.length === 0 ? (
+        <div className="text-center py-12">
+          <Trash2 className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Trash is empty</h3>
+          <p className="text-gray-600">Entries you remove from your diary will show up here.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {trashedGames.map(game => {
+            const homeTeamAbbr = getTeamAbbreviation(game.home_team || '', game.league, game.date || undefined);
+            const awayTeamAbbr = getTeamAbbreviation(game.away_team || '', game.league, game.date || undefined);
+            const deletedAt = game.logData.deleted_at || new Date().toISOString();
+            const daysLeft = getDaysLeft(deletedAt);
+
+            return (
+              <Card key={game.logData.id}>
+                <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900">
+                      {game.home_team && game.away_team ? `${awayTeamAbbr} @ ${homeTeamAbbr}` : `Game ${game.game_id}`}
+                      <span className="text-sm font-normal text-gray-600 ml-2">
+                        {game.date
+                          ? new Date(`${game.date}T12:00:00`).toLocaleDateString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                              year: 'numeric'
+                            })
+                          : 'No longer on the schedule'}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {game.logData.mode === 'attended' ? '🏟️ Attended' : '📺 Watched'}
+                      {' · '}Removed {formatDistanceToNow(new Date(deletedAt), { addSuffix: true })}
+                      {' · '}
+                      {daysLeft === 0 ? 'Deleting soon' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(game.logData.id)}
+                      disabled={restoreGameLog.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                      onClick={() => setPurgeIds([game.logData.id])}
+                    >
+                      Delete Forever
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={!!purgeIds} onOpenChange={(open) => !open && setPurgeIds(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Forever</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeIds && purgeIds.length > 1
+                ? `Permanently delete all ${purgeIds.length} entries in the trash, including their notes and photos?`
+                : 'Permanently delete this entry, including its notes and photos?'}
+              {' '}This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={purgeGameLogs.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the purge finishes
+                e.preventDefault();
+                handlePurge();
+              }}
+              disabled={purgeGameLogs.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {purgeGameLogs.isPending ? 'Deleting...' : 'Delete Forever'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default DiaryTrash;
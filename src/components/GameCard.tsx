@@ -1,5 +1,5 @@
 import React from 'react';
-import { MapPin, BookOpen, ExternalLink } from 'lucide-react';
+import { MapPin, BookOpen, ExternalLink, CheckCircle2, Circle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -38,9 +38,22 @@ interface GameCardProps {
   isAuthenticated: boolean;
   hideDiaryButton?: boolean;
   isAlreadyLogged?: boolean;
+  // Bulk logging: the card toggles selection instead of showing diary actions
+  selectionMode?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (gameId: string) => void;
 }
 
-const GameCard = ({ game, onAddToDiary, isAuthenticated, hideDiaryButton = false, isAlreadyLogged = false }: GameCardProps) => {
+const GameCard = ({
+  game,
+  onAddToDiary,
+  isAuthenticated,
+  hideDiaryButton = false,
+  isAlreadyLogged = false,
+  selectionMode = false,
+  isSelected = false,
+  onToggleSelect
+}: GameCardProps) => {
   const homeTeamAbbr = getTeamAbbreviation(game.home_team, game.league, game.date);
   const awayTeamAbbr = getTeamAbbreviation(game.away_team, game.league, game.date);
 
@@ -77,6 +90,14 @@ const GameCard = ({ game, onAddToDiary, isAuthenticated, hideDiaryButton = false
 
   const statusTag = getStatusTag();
   const isBeforeToday = new Date(game.date) <= new Date(new Date().toDateString());
+  const isSelectable = selectionMode && !isAlreadyLogged;
+  const showBoxscore = isAuthenticated && isBeforeToday && shouldShowBoxscore();
+
+  const handleSelectClick = () => {
+    if (isSelectable && onToggleSelect) {
+      onToggleSelect(game.game_id?.toString() || '');
+    }
+  };
 
   const handleAddClick = () => {
     if (!isAuthenticated) {
@@ -93,7 +114,14 @@ const GameCard = ({ game, onAddToDiary, isAuthenticated, hideDiaryButton = false
 
   return (
     <TooltipProvider>
-      <Card className="transition-shadow duration-200 animate-fade-in h-full flex flex-col">
+      <Card
+        className={`transition-shadow duration-200 animate-fade-in h-full flex flex-col ${
+          isSelectable ? 'cursor-pointer hover:shadow-md' : ''
+        } ${isSelected ? 'ring-2 ring-field-green' : ''} ${selectionMode && isAlreadyLogged ? 'opacity-60' : ''}`}
+        onClick={handleSelectClick}
+        role={isSelectable ? 'checkbox' : undefined}
+        aria-checked={isSelectable ? isSelected : undefined}
+      >
         <CardContent className="p-3 flex-1 flex flex-col">
           <div className="flex justify-between items-start mb-2 min-h-[24px]">
             <div className="flex items-center space-x-2 flex-wrap">
@@ -102,6 +130,15 @@ const GameCard = ({ game, onAddToDiary, isAuthenticated, hideDiaryButton = false
               </Badge>
               {statusTag}
             </div>
+            {selectionMode && (
+              isAlreadyLogged ? (
+                <span className="text-xs text-gray-500">In diary</span>
+              ) : isSelected ? (
+                <CheckCircle2 className="h-5 w-5 text-field-green" />
+              ) : (
+                <Circle className="h-5 w-5 text-gray-300" />
+              )
+            )}
           </div>
 
           {game.venue && (
@@ -139,19 +176,20 @@ const GameCard = ({ game, onAddToDiary, isAuthenticated, hideDiaryButton = false
           </div>
         </CardContent>
 
-        {!hideDiaryButton && (
+        {!hideDiaryButton && (!selectionMode || showBoxscore) && (
           <>
             <div className="border-t border-gray-200 mx-3"></div>
 
             <CardFooter className="p-3 pt-2">
               <div className="w-full">
                 <div className="flex gap-x-2">
-                  {isAlreadyLogged ? (
+                  {selectionMode ? null : isAlreadyLogged ? (
                     <Button
-                      disabled
+                      onClick={handleAddClick}
                       variant="outline"
-                      className="flex-1 border-gray-300 text-gray-500 cursor-default"
+                      className="flex-1 border-gray-300 text-gray-500"
                       size="sm"
+                      title="Already in your diary - edit it or log another viewing"
                     >
                       <BookOpen className="h-4 w-4 mr-2" />
                       Added
@@ -167,7 +205,7 @@ const GameCard = ({ game, onAddToDiary, isAuthenticated, hideDiaryButton = false
                     </Button>
                   )}
 
-                  {isAuthenticated && isBeforeToday && shouldShowBoxscore() && (
+                  {showBoxscore && (
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <a 
@@ -175,6 +213,7 @@ const GameCard = ({ game, onAddToDiary, isAuthenticated, hideDiaryButton = false
                           target="_blank" 
                           rel="noopener noreferrer"
                           className="flex-1"
+                          // Following the link shouldn't also select the card in selection mode
                           onClick={(e) => e.stopPropagation()}
                         >
                           <Button
@@ -6,6 +6,8 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/co
 import { DateFilter } from './filters/DateFilter';
 import { TeamFilter } from './filters/TeamFilter';
 import { SeasonFilter } from './filters/SeasonFilter';
+import { TagFilter } from './filters/TagFilter';
+import { TripFilter } from './filters/TripFilter';
 import { ActiveFilterBadges } from './filters/ActiveFilterBadges';
 
 interface GameFiltersProps {
@@ -17,6 +19,8 @@ interface GameFiltersProps {
     playoff: string;
     search: string;
     mode?: string;
+    tag?: string;
+    trip?: string;
   };
   onFilterChange: (key: string, value: string) => void;
   onClearFilters: () => void;
@@ -34,8 +38,8 @@ const GameFilters = ({ filters, onFilterChange, onClearFilters, showModeFilter =
     setPendingFilters(filters);
   }, [filters]);
 
-  // Show years from 2000 to 2025 for MLB data coverage
-  const seasons = Array.from({ length: 26 }, (_, i) => 2025 - i);
+  // Show years back to 1969 now that older seasons can be loaded from Retrosheet
+  const seasons = Array.from({ length: 2025 - 1969 + 1 }, (_, i) => 2025 - i);
 
   // Only MLB teams (sorted alphabetically)
   const mlbTeams = [
@@ -150,7 +154,7 @@ const GameFilters = ({ filters, onFilterChange, onClearFilters, showModeFilter =
       playoff: '',
       startDate: '',
       endDate: '',
-      ...(showModeFilter && { mode: '' })
+      ...(showModeFilter && { mode: '', tag: '', trip: '' })
     };
     setPendingFilters(clearedFilters);
     onClearFilters();
@@ -217,6 +221,22 @@ const GameFilters = ({ filters, onFilterChange, onClearFilters, showModeFilter =
           </Select>
         )}
 
+        {showModeFilter && (
+          <TagFilter
+            value={filters.tag || ''}
+            onChange={(value) => onFilterChange('tag', value === 'all' ? '' : value)}
+            className="w-36"
+          />
+        )}
+
+        {showModeFilter && (
+          <TripFilter
+            value={filters.trip || ''}
+            onChange={(value) => onFilterChange('trip', value === 'all' ? '' : value)}
+            className="w-44"
+          />
+        )}
+
         {hasActiveFilters && (
           <Button
             variant="ghost"
@@ -314,6 +334,28 @@ const GameFilters = ({ filters, onFilterChange, onClearFilters, showModeFilter =
                 </div>
               )}
 
+              {showModeFilter && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Tag</label>
+                  <TagFilter
+                    value={pendingFilters.tag || ''}
+                    onChange={(value) => handleMobileFilterChange('tag', value === 'all' ? '' : value)}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              {showModeFilter && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Trip</label>
+                  <TripFilter
+                    value={pendingFilters.trip || ''}
+                    onChange={(value) => handleMobileFilterChange('trip', value === 'all' ? '' : value)}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
               <div className="flex gap-2 pt-4">
                 <Button onClick={handleApplyFilters} className="flex-1 bg-field-green hover:bg-field-dark">
                   Apply Filters
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Calendar, BarChart3, Search, Info } from 'lucide-react';
+import { Calendar, BarChart3, Search, Info, Landmark } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import WelcomeModal from '@/components/modals/WelcomeModal';
@@ -17,6 +17,7 @@ const Layout = ({ children }: LayoutProps) => {
     { name: 'Games', href: '/', icon: Search },
     { name: 'Diary', href: '/diary', icon: Calendar },
     { name: 'Dashboard', href: '/dashboard', icon: BarChart3 },
+    { name: 'Ballparks', href: '/ballparks', icon: Landmark },
     { name: 'About', href: '/about', icon: Info },
   ];
 
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { FileUp, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { useMLBTeamCodes } from '@/hooks/useMLBTeamCodes';
+import { useIsAdmin, useImportRetrosheetGames } from '@/hooks/useRetrosheetImport';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getRetrosheetGameType,
+  parseRetrosheetGameLog,
+  toScheduleRows,
+  type RetrosheetScheduleRow,
+} from '@/utils/retrosheet';
+
+interface PreparedImport {
+  fileNames: string[];
+  rows: RetrosheetScheduleRow[];
+  invalidRows: number;
+  unmappedCodes: string[];
+  skippedGames: number;
+}
+
+export const RetrosheetImport = () => {
+  const [prepared, setPrepared] = useState<PreparedImport | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const { data: isAdmin, isLoading: adminLoading } = useIsAdmin();
+  const { data: teamCodeMap = {}, isLoading: teamCodesLoading } = useMLBTeamCodes();
+  const importGames = useImportRetrosheetGames();
+  const { toast } = useToast();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const result: PreparedImport = { fileNames: [], rows: [], invalidRows: 0, unmappedCodes: [], skippedGames: 0 };
+    for (const file of files) {
+      const { games, invalidRows } = parseRetrosheetGameLog(await file.text());
+      const { rows, unmappedCodes } = toScheduleRows(games, getRetrosheetGameType(file.name), teamCodeMap);
+      result.fileNames.push(file.name);
+      result.rows.push(...rows);
+      result.invalidRows += invalidRows;
+      result.skippedGames += games.length - rows.length;
+      result.unmappedCodes = [...new Set([...result.unmappedCodes, ...unmappedCodes])].sort();
+    }
+
+    setProgress(0);
+    setPrepared(result);
+  };
+
+  const handleImport = async () => {
+    if (!prepared) return;
+
+    try {
+      const result = await importGames.mutateAsync({ rows: prepared.rows, onProgress: setProgress });
+      toast({
+        title: 'Success',
+        description: `Added ${result.inserted} games and updated ${result.updated} existing games.`,
+      });
+      setPrepared(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import games.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const seasons = prepared ? [...new Set(prepared.rows.map(row => row.season))].sort((a, b) => a - b) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Retrosheet Import</CardTitle>
+        <p className="text-sm text-gray-500">
+          Load Retrosheet game logs (GL1985.TXT, GLWS.TXT, ...) into the schedule so older games can be logged.
+          Games already on the schedule are filled in rather than duplicated.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {adminLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : !isAdmin ? (
+          <Alert>
+            <AlertTitle>Admins only</AlertTitle>
+            <AlertDescription>
+              Your account needs to be listed in app_admins to import schedule data.
+            </AlertDescription>
+          </Alert>
+        ) : !prepared ? (
+          <label className="flex flex-col items-center justify-center rounded-md border-2 border-dashed border-gray-300 px-4 py-8 text-sm text-gray-600 cursor-pointer hover:border-field-green">
+            <FileUp className="h-8 w-8 mb-2 text-gray-400" />
+            {teamCodesLoading ? 'Loading team codes...' : 'Choose one or more game log files'}
+            <Input
+              type="file"
+              accept=".txt,.csv"
+              multiple
+              className="hidden"
+              onChange={handleFileChange}
+              disabled={teamCodesLoading}
+            />
+          </label>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm text-gray-700 space-y-1">
+              <p className="font-medium">{prepared.fileNames.join(', ')}</p>
+              <p>
+                {prepared.rows.length} games ready
+                {seasons.length > 0 && ` · ${seasons[0] === seasons[seasons.length - 1] ? seasons[0] : `${seasons[0]}–${seasons[seasons.length - 1]}`}`}
+              </p>
+              {prepared.invalidRows > 0 && (
+                <p className="text-amber-700">{prepared.invalidRows} rows couldn't be read and will be skipped.</p>
+              )}
+            </div>
+
+            {prepared.unmappedCodes.length > 0 && (
+              <Alert>
+                <AlertTitle>{prepared.skippedGames} games skipped</AlertTitle>
+                <AlertDescription>
+                  <p className="mb-2">These team codes have no entry in MLB_TEAM_MAPPINGS for that season:</p>
+                  <div className="flex flex-wrap gap-1">
+                    {prepared.unmappedCodes.map(code => (
+                      <Badge key={code} variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                        {code}
+                      </Badge>
+                    ))}
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => setPrepared(null)} disabled={importGames.isPending}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={importGames.isPending || prepared.rows.length === 0}>
+                {importGames.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Importing {progress} of {prepared.rows.length}...
+                  </>
+                ) : (
+                  `Import ${prepared.rows.length} Games`
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
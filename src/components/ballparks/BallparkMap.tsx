@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { BallparkVisits } from '@/hooks/useBallparks';
+import { getGameScore } from '@/utils/gameScore';
+import { getTeamAbbreviation } from '@/utils/teamLogos';
+import { getVenueLocation } from '@/utils/venues';
+import { BORDER_PATH, LAKE_PATHS, LAND_PATHS, MAP_HEIGHT, MAP_WIDTH, projectToMap } from '@/utils/northAmericaMap';
+
+interface BallparkMapProps {
+  parks: BallparkVisits[];
+}
+
+const RECORD_COLORS = [
+  { label: 'Winning record', color: '#1B5E20' },
+  { label: 'Losing record', color: '#DC2626' },
+  { label: 'Even', color: '#FFB300' },
+  { label: 'No decisions', color: '#9CA3AF' },
+];
+
+const getPinColor = ({ wins, losses }: BallparkVisits) => {
+  if (wins + losses === 0) return RECORD_COLORS[3].color;
+  if (wins === losses) return RECORD_COLORS[2].color;
+  return wins > losses ? RECORD_COLORS[0].color : RECORD_COLORS[1].color;
+};
+
+// Area grows with visits, so radius grows with the square root
+const getPinRadius = (visits: number) => Math.min(8 + Math.sqrt(visits - 1) * 5, 26);
+
+const formatGameDate = (date: string) => {
+  try {
+    return format(parseISO(date), 'MMM d, yyyy');
+  } catch (error) {
+    return date;
+  }
+};
+
+export const BallparkMap = ({ parks }: BallparkMapProps) => {
+  const [selectedVenueId, setSelectedVenueId] = useState<number | null>(null);
+
+  // Only parks with coordinates can be pinned; biggest pins go first so small ones stay clickable
+  const pins = parks
+    .filter(visits => visits.visits > 0 && visits.park.latitude !== null && visits.park.longitude !== null)
+    .map(visits => ({ visits, ...projectToMap(visits.park.latitude || 0, visits.park.longitude || 0) }))
+    .sort((a, b) => b.visits.visits - a.visits.visits);
+  const selected = pins.find(pin => pin.visits.park.venue_id === selectedVenueId)?.visits;
+
+  const togglePin = (venueId: number) => {
+    setSelectedVenueId(current => (current === venueId ? null : venueId));
+  };
+
+  return (
+    <div className="space-y-4">
+      <svg
+        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        className="w-full h-auto rounded-lg bg-sky-50 border border-gray-200"
+        role="img"
+        aria-label="Map of ballparks you've attended"
+      >
+        {LAND_PATHS.map((path, index) => (
+          <path key={index} d={path} fill="#F3F4F6" stroke="#D1D5DB" strokeWidth={1} />
+        ))}
+        <path d={BORDER_PATH} fill="#E5E7EB" stroke="#9CA3AF" strokeWidth={1.5} />
+        {LAKE_PATHS.map((path, index) => (
+          <path key={index} d={path} fill="#F0F9FF" stroke="#BAE6FD" strokeWidth={1} />
+        ))}
+
+        {pins.map(({ visits, x, y }) => {
+          const isSelected = visits.park.venue_id === selectedVenueId;
+          return (
+            <g
+              key={visits.park.venue_id}
+              role="button"
+              tabIndex={0}
+              aria-label={`${visits.park.name}, ${visits.visits} ${visits.visits === 1 ? 'game' : 'games'}`}
+              className="cursor-pointer focus:outline-none"
+              onClick={() => togglePin(visits.park.venue_id)}
+              onKeyDown={event => {
+                if (event.key === 'Enter' || event.key === ' ') {
+                  event.preventDefault();
+                  togglePin(visits.park.venue_id);
+                }
+              }}
+            >
+              <title>{`${visits.park.name} · ${visits.visits} ${visits.visits === 1 ? 'game' : 'games'}`}</title>
+              <circle
+                cx={x}
+                cy={y}
+                r={getPinRadius(visits.visits)}
+                fill={getPinColor(visits)}
+                fillOpacity={0.8}
+                stroke={isSelected ? '#111827' : '#FFFFFF'}
+                strokeWidth={isSelected ? 3 : 2}
+              />
+              {visits.visits > 1 && (
+                <text x={x} y={y} dy="0.35em" textAnchor="middle" className="fill-white text-xs font-bold pointer-events-none">
+                  {visits.visits}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap justify-center gap-4 text-xs text-gray-600">
+        {RECORD_COLORS.map(({ label, color }) => (
+          <span key={label} className="flex items-center">
+            <span className="inline-block h-3 w-3 rounded-full mr-1" style={{ backgroundColor: color }} />
+            {label}
+          </span>
+        ))}
+        <span>Larger pins mean more visits</span>
+      </div>
+
+      {pins.length === 0 && (
+        <p className="text-center text-sm text-gray-500">Log an attended game to drop your first pin.</p>
+      )}
+
+      {selected && (
+        <div className="rounded-lg border border-gray-200 bg-white p-4">
+          <div className="flex items-start justify-between mb-3">
+            <div>
+              <h3 className="font-semibold text-gray-900">{selected.park.name}</h3>
+              <p className="text-xs text-gray-500">
+                {getVenueLocation(selected.park)} · {selected.visits} {selected.visits === 1 ? 'game' : 'games'}
+                {selected.wins + selected.losses > 0 && ` · ${selected.wins}-${selected.losses}`}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setSelectedVenueId(null)} aria-label="Close">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {selected.games.map(game => {
+              const score = getGameScore({
+                league: 'MLB',
+                runsScored: game.homeScore ?? undefined,
+                runsAllowed: game.awayScore ?? undefined,
+              });
+              return (
+                <li key={game.logId} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-gray-500 w-28 flex-shrink-0">{formatGameDate(game.date)}</span>
+                  <span className="flex-1 font-medium text-gray-900">
+                    {getTeamAbbreviation(game.awayName, 'MLB', game.date)} @ {getTeamAbbreviation(game.homeName, 'MLB', game.date)}
+                  </span>
+                  <span className="text-gray-700 mr-3">{score || '—'}</span>
+                  {game.result && (
+                    <span className={`text-xs font-bold ${game.result === 'win' ? 'text-field-green' : 'text-red-600'}`}>
+                      {game.result === 'win' ? 'W' : 'L'}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
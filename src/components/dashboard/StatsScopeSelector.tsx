@@ -0,0 +1,77 @@
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ProfileStatsScope } from '@/hooks/useProfileStats';
+
+interface StatsScopeSelectorProps {
+  scope: ProfileStatsScope;
+  onScopeChange: (scope: ProfileStatsScope) => void;
+  seasons: string[];
+  rootedTeams: string[];
+}
+
+export const StatsScopeSelector = ({ scope, onScopeChange, seasons, rootedTeams }: StatsScopeSelectorProps) => {
+  const hasScope = Object.values(scope).some(value => !!value);
+
+  // Selects can't hold an empty value, so "all" stands in for no restriction
+  const handleChange = (key: keyof ProfileStatsScope) => (value: string) => {
+    onScopeChange({ ...scope, [key]: value === 'all' ? '' : value });
+  };
+
+  return (
+    <div className="flex flex-wrap justify-center items-center gap-2">
+      <Select value={scope.season || 'all'} onValueChange={handleChange('season')}>
+        <SelectTrigger className="w-36" aria-label="Season">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All seasons</SelectItem>
+          {seasons.map(year => (
+            <SelectItem key={year} value={year}>{year}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={scope.mode || 'all'} onValueChange={handleChange('mode')}>
+        <SelectTrigger className="w-40" aria-label="Mode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Attended and watched</SelectItem>
+          <SelectItem value="attended">Attended</SelectItem>
+          <SelectItem value="watched">Watched</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select value={scope.rootedFor || 'all'} onValueChange={handleChange('rootedFor')}>
+        <SelectTrigger className="w-40" aria-label="Rooted for">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any team</SelectItem>
+          {rootedTeams.map(team => (
+            <SelectItem key={team} value={team}>Rooting for {team}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={scope.gameType || 'all'} onValueChange={handleChange('gameType')}>
+        <SelectTrigger className="w-40" aria-label="Game type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All game types</SelectItem>
+          <SelectItem value="regular">Regular season</SelectItem>
+          <SelectItem value="postseason">Postseason</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {hasScope && (
+        <Button variant="ghost" size="sm" onClick={() => onScopeChange({})} className="text-gray-600">
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { X } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { formatTeamName } from '@/utils/teamLogos';
+import { useTags } from '@/hooks/useTags';
+import { useTrips } from '@/hooks/useTrips';
 
 interface ActiveFilterBadgesProps {
   filters: {
@@ -13,6 +15,8 @@ interface ActiveFilterBadgesProps {
     playoff: string;
     search: string;
     mode?: string;
+    tag?: string;
+    trip?: string;
   };
   onFilterChange: (key: string, value: string) => void;
   onClearAll: () => void;
@@ -25,6 +29,8 @@ export const ActiveFilterBadges = ({
   onClearAll,
   showModeFilter = false
 }: ActiveFilterBadgesProps) => {
+  const { data: tags = [] } = useTags();
+  const { data: trips = [] } = useTrips();
   const hasActiveFilters = Object.values(filters).some(value => value !== '');
   
   if (!hasActiveFilters) return null;
@@ -109,6 +115,32 @@ export const ActiveFilterBadges = ({
           </Button>
         </Badge>
       )}
+      {showModeFilter && filters.tag && (
+        <Badge variant="secondary" className="pr-1">
+          Tag: #{tags.find(tag => tag.id === filters.tag)?.name || 'Unknown'}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-4 w-4 p-0 ml-1 hover:bg-transparent"
+            onClick={() => onFilterChange('tag', '')}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </Badge>
+      )}
+      {showModeFilter && filters.trip && (
+        <Badge variant="secondary" className="pr-1">
+          Trip: {trips.find(trip => trip.id === filters.trip)?.name || 'Unknown'}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-4 w-4 p-0 ml-1 hover:bg-transparent"
+            onClick={() => onFilterChange('trip', '')}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </Badge>
+      )}
       <Button
         variant="ghost"
         size="sm"
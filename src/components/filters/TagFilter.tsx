@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTags } from '@/hooks/useTags';
+
+interface TagFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+export const TagFilter = ({
+  value,
+  onChange,
+  placeholder = "All Tags",
+  className
+}: TagFilterProps) => {
+  const { data: tags = [] } = useTags();
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={tags.length === 0}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={tags.length === 0 ? 'No tags yet' : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">{placeholder}</SelectItem>
+        {tags.map((tag) => (
+          <SelectItem key={tag.id} value={tag.id}>
+            #{tag.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
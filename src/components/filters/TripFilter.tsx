@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTrips } from '@/hooks/useTrips';
+
+interface TripFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+export const TripFilter = ({
+  value,
+  onChange,
+  placeholder = "All Trips",
+  className
+}: TripFilterProps) => {
+  const { data: trips = [] } = useTrips();
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={trips.length === 0}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={trips.length === 0 ? 'No trips yet' : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">{placeholder}</SelectItem>
+        {trips.map((trip) => (
+          <SelectItem key={trip.id} value={trip.id}>
+            {trip.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -2,33 +2,10 @@
 import React from 'react';
 import { Clock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { getGameScore, type GameScoreInput } from '@/utils/gameScore';
 
-interface GameScoreProps {
-  league: 'NFL' | 'MLB';
-  ptsOff?: number;
-  ptsDef?: number;
-  runsScored?: number;
-  runsAllowed?: number;
-  isFuture?: boolean;
-  isToday?: boolean;
-}
-
-const GameScore = ({ league, ptsOff, ptsDef, runsScored, runsAllowed, isFuture, isToday }: GameScoreProps) => {
-  const getScore = () => {
-    if (league === 'NFL' && ptsOff !== undefined && ptsDef !== undefined) {
-      if (!isFuture && !isToday && (ptsOff !== 0 || ptsDef !== 0)) {
-        return `${ptsDef} - ${ptsOff}`;
-      }
-    }
-    if (league === 'MLB' && runsScored !== undefined && runsAllowed !== undefined) {
-      if (!isFuture && !isToday && (runsScored !== 0 || runsAllowed !== 0)) {
-        return `${runsAllowed} - ${runsScored}`;
-      }
-    }
-    return null;
-  };
-
-  const score = getScore();
+const GameScore = (props: GameScoreInput) => {
+  const score = getGameScore(props);
 
   return (
     <div className="h-[24px] flex items-center justify-center">
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useGameLogRevisions, type GameLogRevision, type GameLogSnapshot } from '@/hooks/useGameLogRevisions';
+import { formatCompanions } from '@/hooks/usePeople';
+import { formatRating } from '@/hooks/useGameLogs';
+import { diffWords } from '@/utils/textDiff';
+
+interface GameLogHistoryProps {
+  gameLogId: string;
+  // The entry as it is currently saved
+  current: GameLogSnapshot;
+  onRestore: (revision: GameLogRevision) => void;
+  disabled?: boolean;
+}
+
+const formatMode = (mode: GameLogSnapshot['mode']) => (mode === 'attended' ? 'Attended' : 'Watched');
+const formatStars = (rating: number | null) => (rating ? `${formatRating(rating)}★` : 'No rating');
+const formatRootedFor = (rootedFor: string | null) => rootedFor || 'No preference';
+
+const NotesDiff = ({ before, after }: { before: string; after: string }) => (
+  <p className="whitespace-pre-wrap break-words">
+    {diffWords(before, after).map((part, index) => (
+      <span
+        key={index}
+        className={
+          part.type === 'added'
+            ? 'bg-green-100 text-green-800'
+            : part.type === 'removed'
+              ? 'bg-red-100 text-red-800 line-through'
+              : undefined
+        }
+      >
+        {part.value}
+      </span>
+    ))}
+  </p>
+);
+
+const ValueChange = ({ label, before, after }: { label: string; before: string; after: string }) => (
+  <div>
+    <span className="font-medium">{label}:</span>{' '}
+    <span className="text-red-700 line-through">{before}</span>
+    {' → '}
+    <span className="text-green-700">{after}</span>
+  </div>
+);
+
+// Everything that changed between a revision and the state that replaced it
+const RevisionChanges = ({ before, after }: { before: GameLogSnapshot; after: GameLogSnapshot }) => {
+  const beforeCompanions = formatCompanions(before.companions) || 'Solo';
+  const afterCompanions = formatCompanions(after.companions) || 'Solo';
+  const changes: React.ReactNode[] = [];
+
+  if (before.mode !== after.mode) {
+    changes.push(<ValueChange key="mode" label="Mode" before={formatMode(before.mode)} after={formatMode(after.mode)} />);
+  }
+  if (before.rating !== after.rating) {
+    changes.push(<ValueChange key="rating" label="Rating" before={formatStars(before.rating)} after={formatStars(after.rating)} />);
+  }
+  if (before.rooted_for !== after.rooted_for) {
+    changes.push(
+      <ValueChange key="rooted" label="Rooted for" before={formatRootedFor(before.rooted_for)} after={formatRootedFor(after.rooted_for)} />
+    );
+  }
+  if (beforeCompanions !== afterCompanions) {
+    changes.push(<ValueChange key="company" label="Company" before={beforeCompanions} after={afterCompanions} />);
+  }
+  if ((before.notes || '') !== (after.notes || '')) {
+    changes.push(
+      <div key="notes">
+        <span className="font-medium">Notes:</span>
+        <NotesDiff before={before.notes || ''} after={after.notes || ''} />
+      </div>
+    );
+  }
+
+  if (changes.length === 0) {
+    return <p className="text-gray-500">No visible changes</p>;
+  }
+  return <div className="space-y-1">{changes}</div>;
+};
+
+export const GameLogHistory = ({ gameLogId, current, onRestore, disabled = false }: GameLogHistoryProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data: revisions = [], isLoading } = useGameLogRevisions(gameLogId);
+
+  return (
+    <div className="rounded-md border border-gray-200">
+      <button
+        type="button"
+        className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center">
+          <History className="h-4 w-4 mr-2 text-gray-500" />
+          History
+          {revisions.length > 0 && (
+            <span className="ml-1 text-gray-500 font-normal">({revisions.length})</span>
+          )}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-200 px-3 py-2 text-xs text-gray-700 space-y-3 max-h-64 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-gray-500">Loading history...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-gray-500">No earlier versions yet. Changes you save will show up here.</p>
+          ) : (
+            revisions.map((revision, index) => (
+              <div key={revision.id} className="space-y-1.5 pb-3 border-b border-gray-100 last:border-0 last:pb-0">
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-500">
+                    Edited {revision.created_at ? new Date(revision.created_at).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit'
+                    }) : ''}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onRestore(revision)}
+                    disabled={disabled}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Restore
+                  </Button>
+                </div>
+                <RevisionChanges before={revision} after={index === 0 ? current : revisions[index - 1]} />
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
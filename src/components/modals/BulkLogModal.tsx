@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CompanionPicker } from '@/components/people/CompanionPicker';
+import type { Person } from '@/hooks/usePeople';
+import { useBulkAddGameLogs } from '@/hooks/useGameLogs';
+import { useToast } from '@/hooks/use-toast';
+import { getTeamAbbreviation } from '@/utils/teamLogos';
+
+interface BulkLogGame {
+  game_id: string;
+  date: string;
+  home_team: string;
+  away_team: string;
+  league: 'MLB';
+}
+
+interface BulkLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  games: BulkLogGame[];
+  onSuccess: () => void;
+}
+
+const BulkLogModal = ({ isOpen, onClose, games, onSuccess }: BulkLogModalProps) => {
+  const [experienceMode, setExperienceMode] = useState<'attended' | 'watched'>('watched');
+  const [rootedFor, setRootedFor] = useState('none');
+  const [companions, setCompanions] = useState<Person[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const bulkAddGameLogs = useBulkAddGameLogs();
+  const { toast } = useToast();
+
+  // Teams are compared by abbreviation so a franchise matches across its historical names
+  const teamOptions = [...new Set(games.flatMap(game => [
+    getTeamAbbreviation(game.away_team, game.league, game.date),
+    getTeamAbbreviation(game.home_team, game.league, game.date),
+  ]))].sort();
+
+  const gamesWithRootedTeam = rootedFor === 'none'
+    ? 0
+    : games.filter(game =>
+        getTeamAbbreviation(game.home_team, game.league, game.date) === rootedFor ||
+        getTeamAbbreviation(game.away_team, game.league, game.date) === rootedFor
+      ).length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const result = await bulkAddGameLogs.mutateAsync({
+        mode: experienceMode,
+        companion_ids: companions.map(person => person.id),
+        games: games.map(game => {
+          // Root for the chosen team only in the games it actually played
+          let rooted: string | undefined;
+          if (rootedFor !== 'none') {
+            if (getTeamAbbreviation(game.home_team, game.league, game.date) === rootedFor) rooted = game.home_team;
+            if (getTeamAbbreviation(game.away_team, game.league, game.date) === rootedFor) rooted = game.away_team;
+          }
+          return { game_id: game.game_id.toString(), rooted_for: rooted };
+        }),
+      });
+
+      const added = result.added.length;
+      toast({
+        title: 'Success',
+        description: `Added ${added} game${added === 1 ? '' : 's'} to your diary${
+          result.skipped > 0 ? ` (${result.skipped} already logged)` : ''
+        }. ${
+          result.companionsSaved
+            ? 'Add ratings and notes from your diary.'
+            : "Companions couldn't be saved, so add them from your diary."
+        }`,
+        variant: result.companionsSaved ? undefined : 'destructive',
+      });
+
+      setExperienceMode('watched');
+      setRootedFor('none');
+      setCompanions([]);
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add games to your diary.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Log {games.length} Game{games.length === 1 ? '' : 's'}</DialogTitle>
+          <p className="text-sm text-gray-600">
+            These details apply to every selected game. You can fine-tune each entry afterwards.
+          </p>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="max-h-28 overflow-y-auto rounded-md border border-gray-200 px-3 py-2 text-xs text-gray-700 space-y-0.5">
+            {games.map(game => (
+              <div key={game.game_id} className="flex justify-between">
+                <span>
+                  {getTeamAbbreviation(game.away_team, game.league, game.date)} @ {getTeamAbbreviation(game.home_team, game.league, game.date)}
+                </span>
+                <span className="text-gray-500">{game.date}</span>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-sm font-medium">How did you experience these games?</label>
+            <Select value={experienceMode} onValueChange={(value: 'attended' | 'watched') => setExperienceMode(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="attended">Attended</SelectItem>
+                <SelectItem value="watched">Watched</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium">Who did you root for?</label>
+            <Select value={rootedFor} onValueChange={setRootedFor}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No preference</SelectItem>
+                {teamOptions.map(team => (
+                  <SelectItem key={team} value={team}>{team}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {rootedFor !== 'none' && gamesWithRootedTeam < games.length && (
+              <p className="text-xs text-gray-500 mt-1">
+                Applies to the {gamesWithRootedTeam} game{gamesWithRootedTeam === 1 ? '' : 's'} {rootedFor} played in.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-sm font-medium">Who did you watch with? (optional)</label>
+            <CompanionPicker value={companions} onChange={setCompanions} disabled={loading} />
+          </div>
+
+          <div className="flex space-x-2">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1" disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || games.length === 0} className="flex-1 bg-field-green hover:bg-field-dark">
+              {loading ? 'Adding...' : `Add ${games.length} to Diary`}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkLogModal;
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { CalendarPlus } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLoggedGames } from '@/hooks/useLoggedGames';
+import { downloadFile } from '@/utils/csv';
+import { buildDiaryIcs, getExportFilename } from '@/utils/diaryExport';
+
+interface CalendarExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialMode?: string;
+  initialSeason?: string;
+}
+
+const CalendarExportModal = ({ isOpen, onClose, initialMode = '', initialSeason = '' }: CalendarExportModalProps) => {
+  const [mode, setMode] = useState(initialMode);
+  const [season, setSeason] = useState(initialSeason);
+
+  // Same filtering as the diary itself, limited to mode and season
+  const { data: allGames = [] } = useLoggedGames({ mode: '' });
+  const { data: games = [], isLoading } = useLoggedGames({ mode, season });
+
+  const seasons = [...new Set(allGames.map(game => game?.date?.slice(0, 4)).filter((year): year is string => !!year))]
+    .sort((a, b) => b.localeCompare(a));
+
+  const handleDownload = () => {
+    const events = games.filter((game): game is NonNullable<typeof game> => !!game);
+    downloadFile(buildDiaryIcs(events), getExportFilename('ics'), 'text/calendar;charset=utf-8');
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add to Calendar</DialogTitle>
+          <p className="text-sm text-gray-600">
+            Download an .ics file with each game as an event, then import it into Google Calendar, Apple Calendar or Outlook.
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium">Games</label>
+            <Select value={mode || 'all'} onValueChange={value => setMode(value === 'all' ? '' : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Attended and watched</SelectItem>
+                <SelectItem value="attended">Attended only</SelectItem>
+                <SelectItem value="watched">Watched only</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium">Season</label>
+            <Select value={season || 'all'} onValueChange={value => setSeason(value === 'all' ? '' : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All seasons</SelectItem>
+                {seasons.map(year => (
+                  <SelectItem key={year} value={year}>{year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex space-x-2">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleDownload}
+              disabled={isLoading || games.length === 0}
+              className="flex-1 bg-field-green hover:bg-field-dark"
+            >
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              {isLoading ? 'Loading...' : `Export ${games.length} Game${games.length === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarExportModal;
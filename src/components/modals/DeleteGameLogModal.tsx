@@ -10,9 +10,10 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
 import { formatTeamName } from '@/utils/teamLogos';
-import { useDeleteGameLog } from '@/hooks/useGameLogs';
+import { useDeleteGameLog, useRestoreGameLog, TRASH_RETENTION_DAYS } from '@/hooks/useGameLogs';
 
 interface DeleteGameLogModalProps {
   isOpen: boolean;
@@ -26,17 +27,39 @@ const DeleteGameLogModal = ({ isOpen, onClose, gameLog, game, league }: DeleteGa
   const [loading, setLoading] = useState(false);
   
   const deleteGameLog = useDeleteGameLog();
+  const restoreGameLog = useRestoreGameLog();
   const { toast } = useToast();
 
+  const handleUndo = async (gameLogId: string) => {
+    try {
+      await restoreGameLog.mutateAsync(gameLogId);
+      toast({
+        title: 'Restored',
+        description: 'The entry is back in your diary.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to restore diary entry.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDelete = async () => {
     setLoading(true);
 
     try {
-      await deleteGameLog.mutateAsync(gameLog.id);
+      const deletedId = await deleteGameLog.mutateAsync(gameLog.id);
 
       toast({
-        title: 'Success',
-        description: 'Game removed from diary!',
+        title: 'Moved to trash',
+        description: 'Game removed from diary.',
+        action: (
+          <ToastAction altText="Undo removing this game" onClick={() => handleUndo(deletedId)}>
+            Undo
+          </ToastAction>
+        ),
       });
 
       // Close modal immediately to provide instant feedback
@@ -61,7 +84,7 @@ const DeleteGameLogModal = ({ isOpen, onClose, gameLog, game, league }: DeleteGa
           <AlertDialogTitle>Remove from Diary</AlertDialogTitle>
           <AlertDialogDescription>
             Are you sure you want to remove <strong>{gameTitle}</strong> from your diary? 
-            This action cannot be undone.
+            It will stay in the trash for {TRASH_RETENTION_DAYS} days in case you change your mind.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { Download, FileUp } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  useExportDiaryBackup,
+  useRestoreDiaryBackup,
+  parseDiaryBackup,
+  type BackupConflictStrategy,
+  type DiaryBackup,
+} from '@/hooks/useDiaryBackup';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/utils/csv';
+import { getExportFilename } from '@/utils/diaryExport';
+
+interface DiaryBackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const conflictOptions: Record<BackupConflictStrategy, { label: string; description: string }> = {
+  skip: {
+    label: 'Keep my current entries',
+    description: 'Entries already in your diary stay as they are. Only missing entries are added.',
+  },
+  replace: {
+    label: 'Replace with the backup',
+    description: 'Entries already in your diary are overwritten with the backup. Earlier versions stay in each entry\'s history.',
+  },
+  keep_both: {
+    label: 'Keep both',
+    description: 'Backup entries for games already in your diary are added as another viewing.',
+  },
+};
+
+const DiaryBackupModal = ({ isOpen, onClose }: DiaryBackupModalProps) => {
+  const [backup, setBackup] = useState<DiaryBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [strategy, setStrategy] = useState<BackupConflictStrategy>('skip');
+
+  const exportBackup = useExportDiaryBackup();
+  const restoreBackup = useRestoreDiaryBackup();
+  const { toast } = useToast();
+  const loading = exportBackup.isPending || restoreBackup.isPending;
+
+  const handleClose = () => {
+    if (loading) return;
+    setBackup(null);
+    setFileName('');
+    setStrategy('skip');
+    onClose();
+  };
+
+  const handleDownload = async () => {
+    try {
+      const result = await exportBackup.mutateAsync();
+      downloadFile(JSON.stringify(result, null, 2), getExportFilename('json'), 'application/json');
+      toast({
+        title: 'Success',
+        description: `Backed up ${result.entries.length} diary entr${result.entries.length === 1 ? 'y' : 'ies'}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create a backup.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setBackup(parseDiaryBackup(await file.text()));
+      setFileName(file.name);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to read the backup.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    try {
+      const result = await restoreBackup.mutateAsync({ backup, strategy });
+      const details = [
+        `${result.added} added`,
+        result.replaced > 0 ? `${result.replaced} replaced` : null,
+        result.skipped > 0 ? `${result.skipped} skipped` : null,
+        result.restoredGames > 0
+          ? `${result.restoredGames} game${result.restoredGames === 1 ? '' : 's'} added to the schedule from the backup`
+          : null,
+      ].filter(Boolean).join(', ');
+
+      const missing = result.missingGames;
+      toast({
+        title: 'Backup restored',
+        description: `${details}.${
+          missing.length > 0
+            ? ` Entries for ${missing.length} game${missing.length === 1 ? '' : 's'} missing from both the schedule and the backup weren't restored: ${
+              missing.slice(0, 3).join('; ')
+            }${missing.length > 3 ? ` and ${missing.length - 3} more` : ''}.`
+            : ''
+        }`,
+        variant: missing.length > 0 ? 'destructive' : undefined,
+      });
+      handleClose();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to restore the backup.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Backup &amp; Restore</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Download a backup</h3>
+          <p className="text-sm text-gray-600">
+            A JSON file with every diary entry (including the trash), your people, tags and trips, and the games they refer to.
+            Photos aren't included.
+          </p>
+          <Button type="button" variant="outline" onClick={handleDownload} disabled={loading} className="w-full">
+            <Download className="h-4 w-4 mr-2" />
+            {exportBackup.isPending ? 'Preparing backup...' : 'Download Backup'}
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium">Restore from a backup</h3>
+          {!backup ? (
+            <label className="flex flex-col items-center justify-center rounded-md border-2 border-dashed border-gray-300 px-4 py-6 text-sm text-gray-600 cursor-pointer hover:border-field-green">
+              <FileUp className="h-6 w-6 mb-2 text-gray-400" />
+              Choose a backup file
+              <Input type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} disabled={loading} />
+            </label>
+          ) : (
+            <>
+              <div className="rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-700 space-y-0.5">
+                <p className="font-medium truncate">{fileName}</p>
+                <p>
+                  {backup.entries.length} entr{backup.entries.length === 1 ? 'y' : 'ies'}
+                  {backup.exported_at && ` · backed up ${new Date(backup.exported_at).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric'
+                  })}`}
+                </p>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium">When an entry already exists</label>
+                <Select value={strategy} onValueChange={(value: BackupConflictStrategy) => setStrategy(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(conflictOptions) as BackupConflictStrategy[]).map(option => (
+                      <SelectItem key={option} value={option}>{conflictOptions[option].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">{conflictOptions[strategy].description}</p>
+              </div>
+
+              <div className="flex space-x-2">
+                <Button type="button" variant="outline" onClick={() => setBackup(null)} className="flex-1" disabled={loading}>
+                  Choose Another File
+                </Button>
+                <Button
+                  type="button"
+                  onClick={handleRestore}
+                  disabled={loading || backup.entries.length === 0}
+                  className="flex-1 bg-field-green hover:bg-field-dark"
+                >
+                  {restoreBackup.isPending ? 'Restoring...' : 'Restore'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiaryBackupModal;
@@ -1,11 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Star } from 'lucide-react';
-import { useAddGameLog, useUpdateGameLog } from '@/hooks/useGameLogs';
+import { useAddGameLog, useUpdateGameLog, useGameLogs, TICKET_SOURCE_LABELS, SUB_RATINGS, type GameLog, type SubRatings, type TicketSource } from '@/hooks/useGameLogs';
+import { StarRatingInput } from '@/components/ratings/StarRating';
+import {
+  useGameLogPhotos,
+  useUploadGameLogPhotos,
+  useDeleteGameLogPhoto,
+  validatePhotoFile,
+  type GameLogPhoto,
+} from '@/hooks/useGameLogPhotos';
+import { PhotoPicker } from '@/components/photos/PhotoPicker';
+import { CompanionPicker } from '@/components/people/CompanionPicker';
+import { usePeople, type Person } from '@/hooks/usePeople';
+import { TagPicker } from '@/components/tags/TagPicker';
+import type { Tag } from '@/hooks/useTags';
+import { GameLogHistory } from '@/components/history/GameLogHistory';
+import type { GameLogRevision } from '@/hooks/useGameLogRevisions';
+import { useGameLogDraft, isSameDraft, type GameLogDraftValues } from '@/hooks/useGameLogDraft';
 import { useToast } from '@/hooks/use-toast';
 import { getTeamAbbreviation } from '@/utils/teamLogos';
 import { useQueryClient } from '@tanstack/react-query';
@@ -21,11 +36,19 @@ interface GameLogModalProps {
   awayTeam?: string;
   league?: string;
   venue?: string;
+  onEditExisting?: (gameLog: GameLog) => void;
   // For edit mode
   gameLog?: any;
   game?: any;
 }
 
+// Unset sub-ratings are kept as 0 in the form, like the overall rating
+const getSubRatingValues = (gameLog: SubRatings | null | undefined): Record<keyof SubRatings, number> => ({
+  game_quality_rating: gameLog?.game_quality_rating || 0,
+  atmosphere_rating: gameLog?.atmosphere_rating || 0,
+  ballpark_rating: gameLog?.ballpark_rating || 0,
+});
+
 const GameLogModal = ({ 
   isOpen, 
   onClose, 
@@ -36,38 +59,212 @@ const GameLogModal = ({
   awayTeam, 
   league, 
   venue,
+  onEditExisting,
   gameLog,
   game
 }: GameLogModalProps) => {
   const [experienceMode, setExperienceMode] = useState<'attended' | 'watched'>(
     mode === 'edit' ? gameLog?.mode : 'attended'
   );
-  const [company, setCompany] = useState(mode === 'edit' ? gameLog?.company || '' : '');
+  const [companions, setCompanions] = useState<Person[]>(mode === 'edit' ? gameLog?.companions || [] : []);
+  const [tags, setTags] = useState<Tag[]>(mode === 'edit' ? gameLog?.tags || [] : []);
   const [rating, setRating] = useState(mode === 'edit' ? gameLog?.rating || 0 : 0);
+  const [subRatings, setSubRatings] = useState<Record<keyof SubRatings, number>>(() => getSubRatingValues(mode === 'edit' ? gameLog : null));
+  const [showSubRatings, setShowSubRatings] = useState(() => Object.values(getSubRatingValues(mode === 'edit' ? gameLog : null)).some(value => value > 0));
   const [rootedFor, setRootedFor] = useState(mode === 'edit' ? gameLog?.rooted_for || 'none' : 'none');
   const [notes, setNotes] = useState(mode === 'edit' ? gameLog?.notes || '' : '');
+  const [seatSection, setSeatSection] = useState(mode === 'edit' ? gameLog?.seat_section || '' : '');
+  const [seatRow, setSeatRow] = useState(mode === 'edit' ? gameLog?.seat_row || '' : '');
+  const [seatNumber, setSeatNumber] = useState(mode === 'edit' ? gameLog?.seat_number || '' : '');
+  const [ticketPrice, setTicketPrice] = useState(mode === 'edit' && gameLog?.ticket_price != null ? String(gameLog.ticket_price) : '');
+  const [ticketSource, setTicketSource] = useState<TicketSource | 'none'>(mode === 'edit' ? gameLog?.ticket_source || 'none' : 'none');
+  const [pendingPhotos, setPendingPhotos] = useState<File[]>([]);
+  const [removedPhotos, setRemovedPhotos] = useState<GameLogPhoto[]>([]);
+  const [repeatViewing, setRepeatViewing] = useState(false);
   const [loading, setLoading] = useState(false);
   
+  const { data: gameLogs = [] } = useGameLogs();
+  const { data: people = [] } = usePeople();
   const addGameLog = useAddGameLog();
   const updateGameLog = useUpdateGameLog();
+  const { data: photosByLog = {} } = useGameLogPhotos();
+  const uploadPhotos = useUploadGameLogPhotos();
+  const deletePhoto = useDeleteGameLogPhoto();
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   useEffect(() => {
     if (mode === 'edit' && gameLog) {
       setExperienceMode(gameLog.mode);
-      setCompany(gameLog.company || '');
+      setCompanions(gameLog.companions || []);
+      setTags(gameLog.tags || []);
       setRating(gameLog.rating || 0);
+      setSubRatings(getSubRatingValues(gameLog));
+      setShowSubRatings(Object.values(getSubRatingValues(gameLog)).some(value => value > 0));
       setRootedFor(gameLog.rooted_for || 'none');
       setNotes(gameLog.notes || '');
+      setSeatSection(gameLog.seat_section || '');
+      setSeatRow(gameLog.seat_row || '');
+      setSeatNumber(gameLog.seat_number || '');
+      setTicketPrice(gameLog.ticket_price != null ? String(gameLog.ticket_price) : '');
+      setTicketSource(gameLog.ticket_source || 'none');
+      setPendingPhotos([]);
+      setRemovedPhotos([]);
     }
   }, [mode, gameLog]);
 
+  // Drafts are kept per game for new entries and per entry when editing
+  const { loadDraft, saveDraft, clearDraft } = useGameLogDraft(
+    mode === 'edit' ? gameLog?.id && `entry:${gameLog.id}` : gameId && `game:${gameId}`
+  );
+  const [restoredDraftAt, setRestoredDraftAt] = useState<number | null>(null);
+  const draftLoadedRef = useRef(false);
+
+  const savedValues = useMemo<GameLogDraftValues>(() => ({
+    mode: mode === 'edit' && gameLog ? gameLog.mode : 'attended',
+    rating: mode === 'edit' ? gameLog?.rating || 0 : 0,
+    rootedFor: mode === 'edit' ? gameLog?.rooted_for || 'none' : 'none',
+    notes: mode === 'edit' ? gameLog?.notes || '' : '',
+    companions: mode === 'edit' ? gameLog?.companions || [] : [],
+  }), [mode, gameLog]);
+
+  // Bring back unsaved changes from an earlier session when the modal opens
+  useEffect(() => {
+    if (!isOpen) {
+      draftLoadedRef.current = false;
+      return;
+    }
+    if (draftLoadedRef.current) return;
+
+    const draft = loadDraft();
+    if (draft && !isSameDraft(draft, savedValues)) {
+      setExperienceMode(draft.mode);
+      setRating(draft.rating);
+      setRootedFor(draft.rootedFor);
+      setNotes(draft.notes);
+      setCompanions(draft.companions);
+      setRestoredDraftAt(draft.savedAt);
+    }
+    draftLoadedRef.current = true;
+  }, [isOpen, loadDraft, savedValues]);
+
+  // Save the draft as the user types; a form matching the saved entry needs no draft
+  useEffect(() => {
+    if (!isOpen || !draftLoadedRef.current) return;
+
+    const currentValues = { mode: experienceMode, rating, rootedFor, notes, companions };
+    if (isSameDraft(currentValues, savedValues)) {
+      clearDraft();
+    } else {
+      saveDraft(currentValues);
+    }
+  }, [isOpen, experienceMode, rating, rootedFor, notes, companions, savedValues, saveDraft, clearDraft]);
+
+  const handleDiscardDraft = () => {
+    clearDraft();
+    setExperienceMode(savedValues.mode);
+    setRating(savedValues.rating);
+    setRootedFor(savedValues.rootedFor);
+    setNotes(savedValues.notes);
+    setCompanions(savedValues.companions);
+    setRestoredDraftAt(null);
+  };
+
+  // Closing on purpose throws the draft away; dismissing the dialog keeps it
+  const handleCancel = () => {
+    clearDraft();
+    setRestoredDraftAt(null);
+    onClose();
+  };
+
+  // Entries the user already has for this game, latest viewing first
+  const existingLogs = mode === 'add'
+    ? gameLogs
+        .filter(log => log.game_id === gameId)
+        .sort((a, b) => b.visit_number - a.visit_number)
+    : [];
+  const showDuplicatePrompt = existingLogs.length > 0 && !repeatViewing;
+
+  const savedPhotos = mode === 'edit' && gameLog?.id ? photosByLog[gameLog.id] || [] : [];
+  const visibleSavedPhotos = savedPhotos.filter(photo => !removedPhotos.some(removed => removed.id === photo.id));
+
+  const handleAddPhotos = (files: File[]) => {
+    try {
+      files.forEach(validatePhotoFile);
+      setPendingPhotos(prev => [...prev, ...files]);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Invalid photo.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Apply photo removals and uploads once the entry itself has been saved.
+  // A photo failure shouldn't make the already-saved entry look unsaved.
+  const syncPhotos = async (gameLogId: string): Promise<boolean> => {
+    try {
+      for (const photo of removedPhotos) {
+        await deletePhoto.mutateAsync(photo);
+      }
+
+      if (pendingPhotos.length > 0) {
+        await uploadPhotos.mutateAsync({
+          gameLogId,
+          files: pendingPhotos,
+          existingCount: visibleSavedPhotos.length,
+        });
+      }
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Photos not saved',
+        description: error instanceof Error ? error.message : 'Your entry was saved, but its photos could not be updated.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Load an earlier version into the form; it is only saved once the user updates the entry
+  const handleRestoreRevision = (revision: GameLogRevision) => {
+    setExperienceMode(revision.mode);
+    setRating(revision.rating || 0);
+    setRootedFor(revision.rooted_for || 'none');
+    setNotes(revision.notes || '');
+    // Skip anyone who has since been removed from the user's people
+    setCompanions(revision.companions.filter(person => people.some(p => p.id === person.id)));
+    toast({
+      title: 'Earlier version loaded',
+      description: 'Review the restored values, then select Update Entry to save them.',
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
+      const parsedPrice = ticketPrice.trim() === '' ? null : Number(ticketPrice);
+      if (parsedPrice !== null && Number.isNaN(parsedPrice)) {
+        throw new Error('Ticket price must be a number');
+      }
+
+      const ticketDetails = {
+        seat_section: seatSection.trim().slice(0, 20) || null,
+        seat_row: seatRow.trim().slice(0, 10) || null,
+        seat_number: seatNumber.trim().slice(0, 10) || null,
+        ticket_price: parsedPrice,
+        ticket_source: ticketSource === 'none' ? null : ticketSource,
+      };
+
+      const subRatingDetails: SubRatings = {
+        game_quality_rating: subRatings.game_quality_rating || null,
+        atmosphere_rating: subRatings.atmosphere_rating || null,
+        ballpark_rating: subRatings.ballpark_rating || null,
+      };
+
       if (mode === 'add') {
         // Client-side validation
         if (!gameId || gameId.trim() === '') {
@@ -78,18 +275,26 @@ const GameLogModal = ({
         const sanitizedData = {
           game_id: gameId.toString().trim(),
           mode: experienceMode,
-          company: company.trim().slice(0, 255) || undefined,
+          companion_ids: companions.map(person => person.id),
+          tag_ids: tags.map(tag => tag.id),
           rating: rating || undefined,
+          ...subRatingDetails,
           rooted_for: rootedFor === 'none' ? undefined : rootedFor.trim().slice(0, 100) || undefined,
           notes: notes.trim().slice(0, 1000) || undefined,
+          repeat_viewing: repeatViewing,
+          ...ticketDetails,
         };
 
-        await addGameLog.mutateAsync(sanitizedData);
+        const createdLog = await addGameLog.mutateAsync(sanitizedData);
+        clearDraft();
+        const photosSaved = await syncPhotos(createdLog.id);
 
-        toast({
-          title: 'Success',
-          description: 'Game added to your diary!',
-        });
+        if (photosSaved) {
+          toast({
+            title: 'Success',
+            description: 'Game added to your diary!',
+          });
+        }
       } else {
         // Edit mode
         if (!gameLog.id) {
@@ -99,33 +304,52 @@ const GameLogModal = ({
         const sanitizedData = {
           id: gameLog.id,
           mode: experienceMode,
-          company: company.trim().slice(0, 255), // Allow empty strings
+          companion_ids: companions.map(person => person.id),
+          tag_ids: tags.map(tag => tag.id),
           rating: rating || undefined,
+          ...subRatingDetails,
           rooted_for: rootedFor === 'none' ? null : rootedFor.trim().slice(0, 100),
           notes: notes.trim().slice(0, 1000), // Allow empty strings
+          ...ticketDetails,
         };
 
         await updateGameLog.mutateAsync(sanitizedData);
+        clearDraft();
+        const photosSaved = await syncPhotos(gameLog.id);
 
         // Force refresh of logged games data immediately
         await queryClient.invalidateQueries({ queryKey: ['logged-games'] });
         await queryClient.invalidateQueries({ queryKey: ['game-logs'] });
 
-        toast({
-          title: 'Success',
-          description: 'Diary entry updated successfully!',
-        });
+        if (photosSaved) {
+          toast({
+            title: 'Success',
+            description: 'Diary entry updated successfully!',
+          });
+        }
       }
 
       onClose();
       // Reset form for add mode
       if (mode === 'add') {
         setExperienceMode('attended');
-        setCompany('');
+        setCompanions([]);
+        setTags([]);
         setRating(0);
+        setSubRatings(getSubRatingValues(null));
+        setShowSubRatings(false);
         setRootedFor('none');
         setNotes('');
+        setSeatSection('');
+        setSeatRow('');
+        setSeatNumber('');
+        setTicketPrice('');
+        setTicketSource('none');
+        setRepeatViewing(false);
       }
+      setPendingPhotos([]);
+      setRemovedPhotos([]);
+      setRestoredDraftAt(null);
     } catch (error) {
       toast({
         title: 'Error',
@@ -155,99 +379,273 @@ const GameLogModal = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>{mode === 'add' ? 'Add Game to Diary' : 'Edit Diary Entry'}</DialogTitle>
+          <DialogTitle>
+            {mode === 'edit' ? 'Edit Diary Entry' : repeatViewing ? 'Log Another Viewing' : 'Add Game to Diary'}
+          </DialogTitle>
           <p className="text-sm text-gray-600">{displayTitle}</p>
         </DialogHeader>
         
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="text-sm font-medium">How did you experience this game?</label>
-            <Select value={experienceMode} onValueChange={(value: 'attended' | 'watched') => setExperienceMode(value)}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="attended">Attended</SelectItem>
-                <SelectItem value="watched">Watched</SelectItem>
-              </SelectContent>
-            </Select>
+        {showDuplicatePrompt ? (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900 space-y-3">
+            <p>
+              This game is already in your diary
+              {existingLogs.length > 1 ? ` (${existingLogs.length} viewings)` : ''}. Your latest entry is marked
+              {' '}<span className="font-medium">{existingLogs[0].mode === 'attended' ? 'attended' : 'watched'}</span>
+              {existingLogs[0].created_at && ` and was added ${new Date(existingLogs[0].created_at).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric'
+              })}`}.
+            </p>
+            <p className="text-amber-800">
+              Edit that entry, or log another viewing if you saw this game more than once (for example, attended and then re-watched).
+            </p>
+            <div className="flex gap-2">
+              {onEditExisting && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => onEditExisting(existingLogs[0])}
+                >
+                  Edit Existing Entry
+                </Button>
+              )}
+              <Button
+                type="button"
+                className="flex-1 bg-field-green hover:bg-field-dark"
+                onClick={() => setRepeatViewing(true)}
+              >
+                Log Another Viewing
+              </Button>
+            </div>
           </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {restoredDraftAt && (
+              <div className="flex items-start justify-between gap-2 rounded-md border border-blue-200 bg-blue-50 p-2.5 text-xs text-blue-900">
+                <p>
+                  Restored unsaved changes from{' '}
+                  {new Date(restoredDraftAt).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit'
+                  })}
+                  {mode === 'edit' ? '. They differ from your saved entry until you update it.' : '.'}
+                </p>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs shrink-0"
+                  onClick={handleDiscardDraft}
+                  disabled={loading}
+                >
+                  Discard
+                </Button>
+              </div>
+            )}
 
-          <div>
-            <label className="text-sm font-medium">Who did you root for?</label>
-            <Select value={rootedFor} onValueChange={setRootedFor}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="none">No preference</SelectItem>
-                <SelectItem value={mode === 'add' ? awayTeam || '' : game.away_team}>{awayTeamAbbr}</SelectItem>
-                <SelectItem value={mode === 'add' ? homeTeam || '' : game.home_team}>{homeTeamAbbr}</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+            <div>
+              <label className="text-sm font-medium">How did you experience this game?</label>
+              <Select value={experienceMode} onValueChange={(value: 'attended' | 'watched') => setExperienceMode(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="attended">Attended</SelectItem>
+                  <SelectItem value="watched">Watched</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
 
-          <div>
-            <label className="text-sm font-medium">Who did you watch with? (optional)</label>
-            <Input
-              value={company}
-              onChange={(e) => setCompany(e.target.value.slice(0, 255))}
-              placeholder="e.g., Friends, Family, Alone"
-              maxLength={255}
-            />
-          </div>
+            {experienceMode === 'attended' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Ticket details (optional)</label>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    value={seatSection}
+                    onChange={(e) => setSeatSection(e.target.value.slice(0, 20))}
+                    placeholder="Section"
+                    aria-label="Section"
+                    maxLength={20}
+                  />
+                  <Input
+                    value={seatRow}
+                    onChange={(e) => setSeatRow(e.target.value.slice(0, 10))}
+                    placeholder="Row"
+                    aria-label="Row"
+                    maxLength={10}
+                  />
+                  <Input
+                    value={seatNumber}
+                    onChange={(e) => setSeatNumber(e.target.value.slice(0, 10))}
+                    placeholder="Seat"
+                    aria-label="Seat"
+                    maxLength={10}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="0.01"
+                    value={ticketPrice}
+                    onChange={(e) => setTicketPrice(e.target.value)}
+                    placeholder="Price ($)"
+                    aria-label="Ticket price"
+                  />
+                  <Select value={ticketSource} onValueChange={(value: TicketSource | 'none') => setTicketSource(value)}>
+                    <SelectTrigger aria-label="How did you get the ticket?">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">How acquired?</SelectItem>
+                      {Object.entries(TICKET_SOURCE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm font-medium">Who did you root for?</label>
+              <Select value={rootedFor} onValueChange={setRootedFor}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No preference</SelectItem>
+                  <SelectItem value={mode === 'add' ? awayTeam || '' : game.away_team}>{awayTeamAbbr}</SelectItem>
+                  <SelectItem value={mode === 'add' ? homeTeam || '' : game.home_team}>{homeTeamAbbr}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Who did you watch with? (optional)</label>
+              <CompanionPicker value={companions} onChange={setCompanions} disabled={loading} />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Rating (optional)</label>
+              <div className="flex items-center space-x-1 mt-1">
+                <StarRatingInput value={rating} onChange={setRating} label="Overall rating" disabled={loading} />
+                {rating > 0 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRating(0)}
+                    className="text-xs"
+                  >
+                    Clear
+                  </Button>
+                )}
+              </div>
 
-          <div>
-            <label className="text-sm font-medium">Rating (optional)</label>
-            <div className="flex items-center space-x-1 mt-1">
-              {[1, 2, 3, 4, 5].map((star) => (
-                <Star
-                  key={star}
-                  className={`h-6 w-6 cursor-pointer ${
-                    star <= rating ? 'text-sports-gold fill-current' : 'text-gray-300'
-                  }`}
-                  onClick={() => setRating(star)}
-                />
-              ))}
-              {rating > 0 && (
+              {showSubRatings ? (
+                <div className="mt-2 space-y-1.5 rounded-md bg-gray-50 p-2.5">
+                  {SUB_RATINGS
+                    .filter(subRating => !subRating.attendedOnly || experienceMode === 'attended')
+                    .map(({ key, label }) => (
+                      <div key={key} className="flex items-center justify-between">
+                        <span className="text-xs text-gray-700">{label}</span>
+                        <div className="flex items-center">
+                          <StarRatingInput
+                            value={subRatings[key]}
+                            onChange={(value) => setSubRatings(prev => ({ ...prev, [key]: value }))}
+                            size="sm"
+                            label={`${label} rating`}
+                            disabled={loading}
+                          />
+                          <button
+                            type="button"
+                            className={`ml-2 text-xs text-gray-500 hover:text-gray-700 ${subRatings[key] > 0 ? '' : 'invisible'}`}
+                            onClick={() => setSubRatings(prev => ({ ...prev, [key]: 0 }))}
+                            aria-label={`Clear ${label.toLowerCase()} rating`}
+                          >
+                            Clear
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              ) : (
                 <Button
                   type="button"
-                  variant="ghost"
+                  variant="link"
                   size="sm"
-                  onClick={() => setRating(0)}
-                  className="text-xs"
+                  className="h-auto p-0 mt-1 text-xs text-field-green"
+                  onClick={() => setShowSubRatings(true)}
                 >
-                  Clear
+                  Rate game quality, atmosphere and ballpark
                 </Button>
               )}
             </div>
-          </div>
 
-          <div>
-            <label className="text-sm font-medium">Notes (optional)</label>
-            <Textarea
-              value={notes}
-              onChange={(e) => setNotes(e.target.value.slice(0, 1000))}
-              placeholder="What made this game memorable?"
-              rows={3}
-              maxLength={1000}
-            />
-            <div className="text-xs text-gray-500 mt-1">
-              {notes.length}/1000 characters
+            <div>
+              <label className="text-sm font-medium">Tags (optional)</label>
+              <TagPicker value={tags} onChange={setTags} disabled={loading} />
             </div>
-          </div>
 
-          <div className="flex space-x-2">
-            <Button type="button" variant="outline" onClick={onClose} className="flex-1" disabled={loading}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={loading} className="flex-1 bg-field-green hover:bg-field-dark">
-              {loading ? (mode === 'add' ? 'Adding...' : 'Updating...') : (mode === 'add' ? 'Add to Diary' : 'Update Entry')}
-            </Button>
-          </div>
-        </form>
+            <div>
+              <label className="text-sm font-medium">Notes (optional)</label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value.slice(0, 1000))}
+                placeholder="What made this game memorable?"
+                rows={3}
+                maxLength={1000}
+              />
+              <div className="text-xs text-gray-500 mt-1">
+                {notes.length}/1000 characters
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Photos (optional)</label>
+              <PhotoPicker
+                existingPhotos={visibleSavedPhotos}
+                pendingFiles={pendingPhotos}
+                onAddFiles={handleAddPhotos}
+                onRemovePending={(index) => setPendingPhotos(prev => prev.filter((_, i) => i !== index))}
+                onRemoveExisting={(photo) => setRemovedPhotos(prev => [...prev, photo])}
+                disabled={loading}
+              />
+            </div>
+
+            {mode === 'edit' && gameLog?.id && (
+              <GameLogHistory
+                gameLogId={gameLog.id}
+                current={{
+                  mode: gameLog.mode,
+                  rating: gameLog.rating ?? null,
+                  rooted_for: gameLog.rooted_for ?? null,
+                  notes: gameLog.notes ?? null,
+                  companions: gameLog.companions || [],
+                }}
+                onRestore={handleRestoreRevision}
+                disabled={loading}
+              />
+            )}
+
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" onClick={handleCancel} className="flex-1" disabled={loading}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading} className="flex-1 bg-field-green hover:bg-field-dark">
+                {loading ? (mode === 'add' ? 'Adding...' : 'Updating...') : (mode === 'add' ? 'Add to Diary' : 'Update Entry')}
+              </Button>
+            </div>
+          </form>
+        )}
       </DialogContent>
     </Dialog>
   );
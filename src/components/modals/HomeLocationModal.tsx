@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { LocateFixed } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useVenues } from '@/hooks/useVenues';
+import { useSetHomeLocation, type HomeLocation } from '@/hooks/useHomeLocation';
+import { getVenueLocation, isCurrentVenue } from '@/utils/venues';
+
+interface HomeLocationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  home: HomeLocation | null;
+}
+
+const HomeLocationModal = ({ isOpen, onClose, home }: HomeLocationModalProps) => {
+  const [label, setLabel] = useState('');
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [locating, setLocating] = useState(false);
+  const { data: venues = [] } = useVenues();
+  const setHomeLocation = useSetHomeLocation();
+  const { toast } = useToast();
+
+  const nearbyParks = venues.filter(venue => isCurrentVenue(venue) && venue.latitude !== null && venue.longitude !== null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLabel(home?.label || '');
+    setLatitude(home ? String(home.latitude) : '');
+    setLongitude(home ? String(home.longitude) : '');
+  }, [isOpen, home]);
+
+  // Picking a park fills in its city, which is close enough for travel totals
+  const handleParkChange = (venueId: string) => {
+    const park = nearbyParks.find(venue => String(venue.venue_id) === venueId);
+    if (!park) return;
+    setLabel(getVenueLocation(park) || park.name);
+    setLatitude(String(park.latitude));
+    setLongitude(String(park.longitude));
+  };
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: 'Error',
+        description: 'Your browser does not support location lookup.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setLatitude(position.coords.latitude.toFixed(4));
+        setLongitude(position.coords.longitude.toFixed(4));
+        setLabel(current => current || 'Home');
+        setLocating(false);
+      },
+      error => {
+        toast({
+          title: 'Error',
+          description: error.message || 'Failed to find your location.',
+          variant: 'destructive',
+        });
+        setLocating(false);
+      }
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedLatitude = parseFloat(latitude);
+    const parsedLongitude = parseFloat(longitude);
+    if (isNaN(parsedLatitude) || isNaN(parsedLongitude)) {
+      toast({
+        title: 'Error',
+        description: 'Pick a ballpark, use your location, or enter coordinates.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await setHomeLocation.mutateAsync({ label, latitude: parsedLatitude, longitude: parsedLongitude });
+      toast({
+        title: 'Success',
+        description: 'Home location saved.',
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save home location.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Home Location</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Travel miles are measured from here. Only the name and coordinates are saved, never your address.
+          </p>
+
+          <div>
+            <label className="text-sm font-medium">Near a ballpark</label>
+            <Select onValueChange={handleParkChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose the closest park" />
+              </SelectTrigger>
+              <SelectContent>
+                {nearbyParks.map(park => (
+                  <SelectItem key={park.venue_id} value={String(park.venue_id)}>
+                    {getVenueLocation(park)} ({park.name})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button type="button" variant="outline" onClick={handleUseCurrentLocation} disabled={locating} className="w-full">
+            <LocateFixed className="h-4 w-4 mr-2" />
+            {locating ? 'Finding you...' : 'Use my current location'}
+          </Button>
+
+          <div>
+            <label className="text-sm font-medium">Name</label>
+            <Input value={label} onChange={e => setLabel(e.target.value)} maxLength={100} placeholder="Home" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-sm font-medium">Latitude</label>
+              <Input type="number" step="any" value={latitude} onChange={e => setLatitude(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Longitude</label>
+              <Input type="number" step="any" value={longitude} onChange={e => setLongitude(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1" disabled={setHomeLocation.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={setHomeLocation.isPending} className="flex-1 bg-field-green hover:bg-field-dark">
+              {setHomeLocation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HomeLocationModal;
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useQueryClient } from '@tanstack/react-query';
+import { FileUp } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAddGameLog } from '@/hooks/useGameLogs';
+import { useMatchDiaryImport, getImportRootedFor, type ImportCandidate, type ImportMatch } from '@/hooks/useDiaryImport';
+import { useToast } from '@/hooks/use-toast';
+import { parseDiaryCsv, MAX_IMPORT_ROWS } from '@/utils/diaryImport';
+import { getTeamAbbreviation } from '@/utils/teamLogos';
+
+interface ImportDiaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const statusStyles: Record<ImportMatch['status'], { label: string; className: string }> = {
+  matched: { label: 'Ready', className: 'bg-green-100 text-green-800' },
+  ambiguous: { label: 'Pick a game', className: 'bg-yellow-100 text-yellow-800' },
+  unmatched: { label: 'Not found', className: 'bg-red-100 text-red-800' },
+  logged: { label: 'Already logged', className: 'bg-gray-100 text-gray-700' },
+};
+
+const formatCandidate = (game: ImportCandidate) => {
+  const matchup = `${getTeamAbbreviation(game.away_team, 'MLB', game.date)} @ ${getTeamAbbreviation(game.home_team, 'MLB', game.date)}`;
+  const details = [
+    game.game_num && game.game_num > 1 ? `Game ${game.game_num}` : null,
+    // Local time at the ballpark, the same clock the Time column is read in
+    game.start_minutes !== null
+      ? format(new Date(2000, 0, 1, Math.floor(game.start_minutes / 60), game.start_minutes % 60), 'h:mm a')
+      : null,
+  ].filter(Boolean);
+  return details.length > 0 ? `${matchup} · ${details.join(' · ')}` : matchup;
+};
+
+const ImportDiaryModal = ({ isOpen, onClose }: ImportDiaryModalProps) => {
+  const [matches, setMatches] = useState<ImportMatch[] | null>(null);
+  const [selected, setSelected] = useState<Record<number, boolean>>({});
+  const [choices, setChoices] = useState<Record<number, string>>({});
+  const [failures, setFailures] = useState<Record<number, string>>({});
+  const [defaultMode, setDefaultMode] = useState<'attended' | 'watched'>('watched');
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const matchDiaryImport = useMatchDiaryImport();
+  const addGameLog = useAddGameLog();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const getGame = (match: ImportMatch) =>
+    match.game || match.candidates.find(game => game.game_id === choices[match.row.line]) || null;
+
+  const rowsToImport = (matches || []).filter(match => selected[match.row.line] && getGame(match));
+
+  const reset = () => {
+    setMatches(null);
+    setSelected({});
+    setChoices({});
+    setFailures({});
+    setProgress(0);
+  };
+
+  const handleClose = () => {
+    if (loading) return;
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const rows = parseDiaryCsv(await file.text());
+      const result = await matchDiaryImport.mutateAsync(rows);
+      setMatches(result);
+      setSelected(Object.fromEntries(result.map(match => [match.row.line, match.status === 'matched'])));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to read the file.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    setProgress(0);
+
+    const importedLines: number[] = [];
+    const failedRows: Record<number, string> = {};
+
+    for (const match of rowsToImport) {
+      const game = getGame(match) as ImportCandidate;
+      const { row } = match;
+      try {
+        await addGameLog.mutateAsync({
+          game_id: game.game_id,
+          mode: row.mode || defaultMode,
+          rating: row.rating ?? undefined,
+          rooted_for: getImportRootedFor(row, game),
+          notes: row.notes || undefined,
+          // Rows flagged as already logged only get here when the user ticked them on purpose
+          repeat_viewing: match.status === 'logged',
+        });
+        importedLines.push(row.line);
+      } catch (error) {
+        failedRows[row.line] = error instanceof Error ? error.message : 'Failed to import this row';
+      }
+      setProgress(prev => prev + 1);
+    }
+
+    await queryClient.invalidateQueries({ queryKey: ['logged-games'] });
+    setLoading(false);
+
+    const imported = importedLines.length;
+    const failed = Object.keys(failedRows).length;
+    toast({
+      title: failed > 0 ? 'Import finished with errors' : 'Success',
+      description: `Imported ${imported} game${imported === 1 ? '' : 's'} into your diary${
+        failed > 0 ? `. ${failed} row${failed === 1 ? '' : 's'} could not be imported.` : '.'
+      }`,
+      variant: failed > 0 ? 'destructive' : 'default',
+    });
+
+    if (failed === 0) {
+      reset();
+      onClose();
+      return;
+    }
+
+    // Keep the rows that still need attention on screen
+    setMatches(prev => (prev || []).filter(match => !importedLines.includes(match.row.line)));
+    setSelected(prev => Object.fromEntries(Object.entries(prev).map(([line, value]) => [line, value && !!failedRows[Number(line)]])));
+    setFailures(failedRows);
+  };
+
+  const counts = (matches || []).reduce((acc, match) => {
+    acc[match.status] = (acc[match.status] || 0) + 1;
+    return acc;
+  }, {} as Record<ImportMatch['status'], number>);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Games from CSV</DialogTitle>
+          <p className="text-sm text-gray-600">
+            {matches
+              ? 'Review how each row was matched. Nothing is added to your diary until you import.'
+              : 'Bring in games you tracked in a spreadsheet. We match each row to a game on the schedule.'}
+          </p>
+        </DialogHeader>
+
+        {!matches ? (
+          <div className="space-y-4">
+            <div className="rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-700 space-y-1">
+              <p>
+                Required columns: <span className="font-medium">Date</span>, <span className="font-medium">Away Team</span> and{' '}
+                <span className="font-medium">Home Team</span> (or one <span className="font-medium">Matchup</span> column like "NYY @ BOS").
+              </p>
+              <p>
+                Optional columns: Time (local to the ballpark) or Game Number (for doubleheaders), Mode, Rating, Rooted For and Notes.
+                Teams can be abbreviations, full names or nicknames. Up to {MAX_IMPORT_ROWS} rows per file.
+              </p>
+              <p>Files exported from your diary can be imported as they are.</p>
+            </div>
+
+            <label className="flex flex-col items-center justify-center rounded-md border-2 border-dashed border-gray-300 px-4 py-8 text-sm text-gray-600 cursor-pointer hover:border-field-green">
+              <FileUp className="h-8 w-8 mb-2 text-gray-400" />
+              {loading ? 'Matching games...' : 'Choose a CSV file'}
+              <Input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} disabled={loading} />
+            </label>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(statusStyles) as ImportMatch['status'][])
+                .filter(status => counts[status])
+                .map(status => (
+                  <Badge key={status} variant="secondary" className={statusStyles[status].className}>
+                    {counts[status]} {statusStyles[status].label.toLowerCase()}
+                  </Badge>
+                ))}
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Mode for rows without one</label>
+              <Select value={defaultMode} onValueChange={(value: 'attended' | 'watched') => setDefaultMode(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="attended">Attended</SelectItem>
+                  <SelectItem value="watched">Watched</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+              {matches.map(match => {
+                const { row } = match;
+                const game = getGame(match);
+                const error = failures[row.line];
+                return (
+                  <div key={row.line} className="flex items-start gap-3 px-3 py-2 text-xs">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5 h-4 w-4 accent-field-green"
+                      checked={!!selected[row.line]}
+                      disabled={!game || loading}
+                      onChange={e => setSelected(prev => ({ ...prev, [row.line]: e.target.checked }))}
+                      aria-label={`Import row ${row.line}`}
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-900 truncate">
+                          Row {row.line}: {row.date || 'No date'} · {row.awayTeam || '?'} @ {row.homeTeam || '?'}
+                        </span>
+                        <Badge variant="secondary" className={`shrink-0 ${statusStyles[match.status].className}`}>
+                          {statusStyles[match.status].label}
+                        </Badge>
+                      </div>
+                      {match.status === 'ambiguous' ? (
+                        <Select
+                          value={choices[row.line] || ''}
+                          onValueChange={value => {
+                            setChoices(prev => ({ ...prev, [row.line]: value }));
+                            setSelected(prev => ({ ...prev, [row.line]: true }));
+                          }}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue placeholder="Choose the game you saw" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {match.candidates.map(candidate => (
+                              <SelectItem key={candidate.game_id} value={candidate.game_id}>
+                                {formatCandidate(candidate)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : game ? (
+                        <p className="text-gray-600">
+                          → {formatCandidate(game)}{game.venue ? ` at ${game.venue}` : ''}
+                        </p>
+                      ) : null}
+                      {match.reason && match.status !== 'matched' && <p className="text-gray-500">{match.reason}</p>}
+                      {row.warnings.map(warning => (
+                        <p key={warning} className="text-yellow-700">{warning}</p>
+                      ))}
+                      {error && <p className="text-red-600">{error}</p>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" onClick={reset} className="flex-1" disabled={loading}>
+                Choose Another File
+              </Button>
+              <Button
+                type="button"
+                onClick={handleImport}
+                disabled={loading || rowsToImport.length === 0}
+                className="flex-1 bg-field-green hover:bg-field-dark"
+              >
+                {loading ? `Importing ${progress} of ${rowsToImport.length}...` : `Import ${rowsToImport.length} Game${rowsToImport.length === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDiaryModal;
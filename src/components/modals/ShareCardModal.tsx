@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { Download, Loader2, Share2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/utils/csv';
+import { renderShareCard, getShareCardFilename } from '@/utils/shareCard';
+import type { ExportableGame } from '@/utils/diaryExport';
+
+interface ShareCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  game: ExportableGame | null;
+}
+
+const ShareCardModal = ({ isOpen, onClose, game }: ShareCardModalProps) => {
+  const [image, setImage] = useState<{ blob: Blob; url: string } | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [renderError, setRenderError] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen || !game) return;
+
+    let cancelled = false;
+    let url = '';
+    setImage(null);
+    setRenderError('');
+    setIsRendering(true);
+
+    renderShareCard(game)
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setImage({ blob, url });
+      })
+      .catch(error => {
+        if (!cancelled) setRenderError(error instanceof Error ? error.message : 'Failed to create image');
+      })
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isOpen, game]);
+
+  const filename = game ? getShareCardFilename(game) : 'gameday-diary.png';
+  const shareFile = image ? new File([image.blob], filename, { type: 'image/png' }) : null;
+  // Only offer sharing where the browser can share image files (mostly mobile)
+  const canShare = !!shareFile && typeof navigator.canShare === 'function' && navigator.canShare({ files: [shareFile] });
+
+  const handleDownload = () => {
+    if (!image) return;
+    downloadFile(image.blob, filename, 'image/png');
+  };
+
+  const handleShare = async () => {
+    if (!shareFile) return;
+
+    try {
+      await navigator.share({ files: [shareFile] });
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError, which isn't a failure
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to share image.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share Game</DialogTitle>
+          <p className="text-sm text-gray-600">
+            An image of this diary entry, ready to post or send.
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="aspect-square w-full rounded-md border border-gray-200 bg-gray-50 flex items-center justify-center overflow-hidden">
+            {isRendering ? (
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            ) : image ? (
+              <img src={image.url} alt="Diary entry card" className="w-full h-full object-contain" />
+            ) : (
+              <p className="text-sm text-red-600 px-4 text-center">{renderError}</p>
+            )}
+          </div>
+
+          <div className="flex space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleDownload}
+              disabled={!image}
+              className="flex-1"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+            {canShare && (
+              <Button
+                type="button"
+                onClick={handleShare}
+                className="flex-1 bg-field-green hover:bg-field-dark"
+              >
+                <Share2 className="h-4 w-4 mr-2" />
+                Share
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareCardModal;
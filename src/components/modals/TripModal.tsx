@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useCreateTrip,
+  useUpdateTrip,
+  MAX_TRIP_NAME_LENGTH,
+  MAX_TRIP_NOTES_LENGTH,
+  type Trip,
+} from '@/hooks/useTrips';
+
+interface TripModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Editing an existing trip; a new one is created when this is null
+  trip: Trip | null;
+  onSaved?: (tripId: string) => void;
+}
+
+const TripModal = ({ isOpen, onClose, trip, onSaved }: TripModalProps) => {
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const createTrip = useCreateTrip();
+  const updateTrip = useUpdateTrip();
+  const { toast } = useToast();
+  const loading = createTrip.isPending || updateTrip.isPending;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(trip?.name || '');
+    setStartDate(trip?.start_date || '');
+    setEndDate(trip?.end_date || '');
+    setNotes(trip?.notes || '');
+  }, [isOpen, trip]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const details = { name, start_date: startDate, end_date: endDate, notes };
+    try {
+      if (trip) {
+        await updateTrip.mutateAsync({ id: trip.id, ...details });
+        onSaved?.(trip.id);
+      } else {
+        const created = await createTrip.mutateAsync(details);
+        onSaved?.(created.id);
+      }
+      toast({
+        title: 'Success',
+        description: trip ? 'Trip updated.' : 'Trip created.',
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save trip.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{trip ? 'Edit Trip' : 'New Trip'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="text-sm font-medium">Name</label>
+            <Input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              maxLength={MAX_TRIP_NAME_LENGTH}
+              placeholder="2024 Midwest swing"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-sm font-medium">Start date</label>
+              <Input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} required />
+            </div>
+            <div>
+              <label className="text-sm font-medium">End date</label>
+              <Input type="date" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} required />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium">Trip notes (optional)</label>
+            <Textarea
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              maxLength={MAX_TRIP_NOTES_LENGTH}
+              rows={5}
+              placeholder="Where you stayed, what you ate, the drive between parks..."
+            />
+          </div>
+
+          <div className="flex space-x-2">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1" disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading} className="flex-1 bg-field-green hover:bg-field-dark">
+              {loading ? 'Saving...' : trip ? 'Save Trip' : 'Create Trip'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TripModal;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { usePeople, useCreatePerson, MAX_COMPANIONS_PER_ENTRY, type Person } from '@/hooks/usePeople';
+
+interface CompanionPickerProps {
+  value: Person[];
+  onChange: (companions: Person[]) => void;
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const CompanionPicker = ({ value, onChange, disabled = false }: CompanionPickerProps) => {
+  const [query, setQuery] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const { data: people = [] } = usePeople();
+  const createPerson = useCreatePerson();
+  const { toast } = useToast();
+
+  const trimmedQuery = query.trim();
+  const selectedIds = new Set(value.map(person => person.id));
+  const suggestions = people
+    .filter(person => !selectedIds.has(person.id))
+    .filter(person => person.name.toLowerCase().includes(trimmedQuery.toLowerCase()))
+    .slice(0, MAX_SUGGESTIONS);
+  const hasExactMatch = people.some(person => person.name.toLowerCase() === trimmedQuery.toLowerCase());
+  const canCreate = trimmedQuery.length > 0 && !hasExactMatch;
+  const optionCount = suggestions.length + (canCreate ? 1 : 0);
+  const isFull = value.length >= MAX_COMPANIONS_PER_ENTRY;
+
+  const selectPerson = (person: Person) => {
+    if (isFull || selectedIds.has(person.id)) return;
+    onChange([...value, person]);
+    setQuery('');
+    setHighlighted(0);
+  };
+
+  const handleCreate = async () => {
+    try {
+      const person = await createPerson.mutateAsync(trimmedQuery);
+      selectPerson(person);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add person.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const chooseOption = (index: number) => {
+    if (index < suggestions.length) {
+      selectPerson(suggestions[index]);
+    } else if (canCreate) {
+      handleCreate();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && optionCount > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev + 1) % optionCount);
+    } else if (e.key === 'ArrowUp' && optionCount > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev - 1 + optionCount) % optionCount);
+    } else if (e.key === 'Enter') {
+      // Don't submit the surrounding form while picking a companion
+      e.preventDefault();
+      if (optionCount > 0) chooseOption(Math.min(highlighted, optionCount - 1));
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-1.5">
+          {value.map(person => (
+            <Badge key={person.id} variant="secondary" className="pr-1">
+              {person.name}
+              <button
+                type="button"
+                className="ml-1 rounded-full hover:bg-gray-300"
+                onClick={() => onChange(value.filter(p => p.id !== person.id))}
+                disabled={disabled}
+                aria-label={`Remove ${person.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value.slice(0, 100));
+          setHighlighted(0);
+        }}
+        onFocus={() => setIsFocused(true)}
+        // Delay so clicks on a suggestion register before the list disappears
+        onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder={isFull ? 'Companion limit reached' : value.length > 0 ? 'Add someone else' : 'e.g., Dad, Sarah'}
+        disabled={disabled || isFull}
+        maxLength={100}
+        role="combobox"
+        aria-expanded={isFocused && optionCount > 0}
+        aria-autocomplete="list"
+      />
+
+      {isFocused && optionCount > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-50 mt-1 w-full rounded-md border bg-white py-1 shadow-md text-sm"
+        >
+          {suggestions.map((person, index) => (
+            <li
+              key={person.id}
+              role="option"
+              aria-selected={highlighted === index}
+              className={`cursor-pointer px-3 py-1.5 ${highlighted === index ? 'bg-gray-100' : ''}`}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => chooseOption(index)}
+            >
+              {person.name}
+            </li>
+          ))}
+          {canCreate && (
+            <li
+              role="option"
+              aria-selected={highlighted === suggestions.length}
+              className={`flex cursor-pointer items-center px-3 py-1.5 text-field-green ${highlighted === suggestions.length ? 'bg-gray-100' : ''}`}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => chooseOption(suggestions.length)}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1.5" />
+              Add "{trimmedQuery}"
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
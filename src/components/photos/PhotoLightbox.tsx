@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import type { GameLogPhoto } from '@/hooks/useGameLogPhotos';
+
+interface PhotoLightboxProps {
+  photos: GameLogPhoto[];
+  startIndex: number | null;
+  onClose: () => void;
+  title?: string;
+}
+
+export const PhotoLightbox = ({ photos, startIndex, onClose, title }: PhotoLightboxProps) => {
+  const [index, setIndex] = useState(startIndex ?? 0);
+
+  useEffect(() => {
+    if (startIndex !== null) setIndex(startIndex);
+  }, [startIndex]);
+
+  const isOpen = startIndex !== null && photos.length > 0;
+  const photo = photos[Math.min(index, photos.length - 1)];
+
+  const showPrevious = () => setIndex(prev => (prev - 1 + photos.length) % photos.length);
+  const showNext = () => setIndex(prev => (prev + 1) % photos.length);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (photos.length < 2) return;
+    if (e.key === 'ArrowLeft') showPrevious();
+    if (e.key === 'ArrowRight') showNext();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl bg-black/95 border-none p-4" onKeyDown={handleKeyDown}>
+        <DialogTitle className="text-sm font-medium text-white">
+          {title || 'Photos'}
+          {photos.length > 1 && (
+            <span className="ml-2 text-gray-400">{index + 1} / {photos.length}</span>
+          )}
+        </DialogTitle>
+
+        {photo && (
+          <div className="relative flex items-center justify-center">
+            <img
+              src={photo.url}
+              alt={photo.caption || 'Diary photo'}
+              className="max-h-[75vh] w-auto object-contain rounded"
+            />
+
+            {photos.length > 1 && (
+              <>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="absolute left-2 h-10 w-10 p-0 bg-white/20 hover:bg-white/40 text-white"
+                  onClick={showPrevious}
+                  aria-label="Previous photo"
+                >
+                  <ChevronLeft className="h-6 w-6" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="absolute right-2 h-10 w-10 p-0 bg-white/20 hover:bg-white/40 text-white"
+                  onClick={showNext}
+                  aria-label="Next photo"
+                >
+                  <ChevronRight className="h-6 w-6" />
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {photo?.caption && (
+          <p className="text-center text-sm text-gray-300">{photo.caption}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ALLOWED_PHOTO_TYPES, MAX_PHOTOS_PER_ENTRY, type GameLogPhoto } from '@/hooks/useGameLogPhotos';
+
+interface PhotoPickerProps {
+  existingPhotos: GameLogPhoto[];
+  pendingFiles: File[];
+  onAddFiles: (files: File[]) => void;
+  onRemovePending: (index: number) => void;
+  onRemoveExisting: (photo: GameLogPhoto) => void;
+  disabled?: boolean;
+}
+
+export const PhotoPicker = ({
+  existingPhotos,
+  pendingFiles,
+  onAddFiles,
+  onRemovePending,
+  onRemoveExisting,
+  disabled = false
+}: PhotoPickerProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const totalCount = existingPhotos.length + pendingFiles.length;
+  const remaining = MAX_PHOTOS_PER_ENTRY - totalCount;
+
+  // Local previews for files that haven't been uploaded yet
+  const pendingPreviews = useMemo(
+    () => pendingFiles.map(file => URL.createObjectURL(file)),
+    [pendingFiles]
+  );
+
+  useEffect(() => {
+    return () => pendingPreviews.forEach(url => URL.revokeObjectURL(url));
+  }, [pendingPreviews]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, Math.max(remaining, 0));
+    if (files.length > 0) onAddFiles(files);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mt-1">
+        {existingPhotos.map(photo => (
+          <div key={photo.id} className="relative h-16 w-16 overflow-hidden rounded border border-gray-200">
+            <img src={photo.url} alt={photo.caption || 'Diary photo'} className="h-full w-full object-cover" />
+            <button
+              type="button"
+              onClick={() => onRemoveExisting(photo)}
+              disabled={disabled}
+              className="absolute right-0.5 top-0.5 rounded-full bg-black/60 p-0.5 text-white hover:bg-black/80"
+              aria-label="Remove photo"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+
+        {pendingPreviews.map((url, index) => (
+          <div key={url} className="relative h-16 w-16 overflow-hidden rounded border border-dashed border-field-green">
+            <img src={url} alt={pendingFiles[index]?.name} className="h-full w-full object-cover" />
+            <button
+              type="button"
+              onClick={() => onRemovePending(index)}
+              disabled={disabled}
+              className="absolute right-0.5 top-0.5 rounded-full bg-black/60 p-0.5 text-white hover:bg-black/80"
+              aria-label="Remove photo"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+
+        {remaining > 0 && (
+          <Button
+            type="button"
+            variant="outline"
+            className="h-16 w-16 p-0 border-dashed"
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+            aria-label="Add photos"
+          >
+            <ImagePlus className="h-5 w-5 text-gray-500" />
+          </Button>
+        )}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ALLOWED_PHOTO_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={handleChange}
+      />
+
+      <div className="text-xs text-gray-500 mt-1">
+        {totalCount}/{MAX_PHOTOS_PER_ENTRY} photos
+      </div>
+    </div>
+  );
+};
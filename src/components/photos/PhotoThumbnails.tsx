@@ -0,0 +1,44 @@
+import type { GameLogPhoto } from '@/hooks/useGameLogPhotos';
+
+interface PhotoThumbnailsProps {
+  photos: GameLogPhoto[];
+  onSelect: (index: number) => void;
+  maxVisible?: number;
+}
+
+export const PhotoThumbnails = ({ photos, onSelect, maxVisible = 4 }: PhotoThumbnailsProps) => {
+  if (photos.length === 0) return null;
+
+  const visiblePhotos = photos.slice(0, maxVisible);
+  const hiddenCount = photos.length - visiblePhotos.length;
+
+  return (
+    <div className="flex justify-center gap-1.5">
+      {visiblePhotos.map((photo, index) => {
+        const isLastWithOverflow = hiddenCount > 0 && index === visiblePhotos.length - 1;
+
+        return (
+          <button
+            key={photo.id}
+            type="button"
+            onClick={() => onSelect(index)}
+            className="relative h-12 w-12 overflow-hidden rounded border border-gray-200 focus:outline-none focus:ring-2 focus:ring-field-green"
+            aria-label={`View photo ${index + 1} of ${photos.length}`}
+          >
+            <img
+              src={photo.url}
+              alt={photo.caption || 'Diary photo'}
+              className="h-full w-full object-cover"
+              loading="lazy"
+            />
+            {isLastWithOverflow && (
+              <span className="absolute inset-0 flex items-center justify-center bg-black/50 text-xs font-semibold text-white">
+                +{hiddenCount + 1}
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+import { formatRating } from '@/hooks/useGameLogs';
+
+const STARS = [1, 2, 3, 4, 5];
+
+const sizeClasses = {
+  xs: 'h-3 w-3',
+  sm: 'h-4 w-4',
+  md: 'h-6 w-6',
+};
+
+type StarSize = keyof typeof sizeClasses;
+
+// A single star that can be empty, half or fully filled
+const RatingStar = ({ fill, size }: { fill: 0 | 0.5 | 1; size: StarSize }) => (
+  <span className={`relative inline-block ${sizeClasses[size]}`}>
+    <Star className={`absolute inset-0 ${sizeClasses[size]} text-gray-300`} />
+    {fill > 0 && (
+      <span className="absolute inset-0 overflow-hidden" style={{ width: fill === 1 ? '100%' : '50%' }}>
+        <Star className={`${sizeClasses[size]} text-sports-gold fill-current`} />
+      </span>
+    )}
+  </span>
+);
+
+const getFill = (star: number, rating: number): 0 | 0.5 | 1 => {
+  if (rating >= star) return 1;
+  if (rating >= star - 0.5) return 0.5;
+  return 0;
+};
+
+interface StarRatingDisplayProps {
+  rating: number;
+  size?: StarSize;
+}
+
+export const StarRatingDisplay = ({ rating, size = 'xs' }: StarRatingDisplayProps) => (
+  <span className="inline-flex items-center gap-0.5" aria-label={`${formatRating(rating)} out of 5 stars`}>
+    {STARS.map(star => (
+      <RatingStar key={star} fill={getFill(star, rating)} size={size} />
+    ))}
+  </span>
+);
+
+interface StarRatingInputProps {
+  value: number;
+  onChange: (rating: number) => void;
+  size?: StarSize;
+  label: string;
+  disabled?: boolean;
+}
+
+// Clicking the left half of a star gives a half star, the right half a whole star
+export const StarRatingInput = ({ value, onChange, size = 'md', label, disabled = false }: StarRatingInputProps) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const shown = hovered ?? value;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowRight' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      onChange(Math.min(value + 0.5, 5));
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      onChange(Math.max(value - 0.5, 0));
+    }
+  };
+
+  return (
+    <div
+      className={`inline-flex items-center space-x-1 ${disabled ? 'pointer-events-none opacity-60' : ''}`}
+      role="slider"
+      tabIndex={disabled ? -1 : 0}
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={5}
+      aria-valuenow={value}
+      aria-valuetext={value > 0 ? `${formatRating(value)} stars` : 'Not rated'}
+      onKeyDown={handleKeyDown}
+      onMouseLeave={() => setHovered(null)}
+    >
+      {STARS.map(star => (
+        <span key={star} className="relative cursor-pointer">
+          <RatingStar fill={getFill(star, shown)} size={size} />
+          <span
+            className="absolute inset-y-0 left-0 w-1/2"
+            onMouseEnter={() => setHovered(star - 0.5)}
+            onClick={() => onChange(star - 0.5)}
+          />
+          <span
+            className="absolute inset-y-0 right-0 w-1/2"
+            onMouseEnter={() => setHovered(star)}
+            onClick={() => onChange(star)}
+          />
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useTags, useCreateTag, MAX_TAGS_PER_ENTRY, MAX_TAG_NAME_LENGTH, type Tag } from '@/hooks/useTags';
+
+interface TagPickerProps {
+  value: Tag[];
+  onChange: (tags: Tag[]) => void;
+  disabled?: boolean;
+}
+
+export const TagPicker = ({ value, onChange, disabled = false }: TagPickerProps) => {
+  const [newTag, setNewTag] = useState('');
+  const { data: tags = [] } = useTags();
+  const createTag = useCreateTag();
+  const { toast } = useToast();
+
+  const selectedIds = new Set(value.map(tag => tag.id));
+  const isFull = value.length >= MAX_TAGS_PER_ENTRY;
+
+  // Show newly created tags even before the tag list refetches
+  const allTags = [...tags, ...value.filter(tag => !tags.some(t => t.id === tag.id))]
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const toggleTag = (tag: Tag) => {
+    if (selectedIds.has(tag.id)) {
+      onChange(value.filter(t => t.id !== tag.id));
+    } else if (!isFull) {
+      onChange([...value, tag]);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newTag.trim()) return;
+
+    try {
+      const tag = await createTag.mutateAsync(newTag);
+      if (!selectedIds.has(tag.id) && !isFull) {
+        onChange([...value, tag]);
+      }
+      setNewTag('');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create tag.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2 mt-1">
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {allTags.map(tag => {
+            const isSelected = selectedIds.has(tag.id);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                disabled={disabled || (!isSelected && isFull)}
+                aria-pressed={isSelected}
+              >
+                <Badge
+                  variant={isSelected ? 'default' : 'outline'}
+                  className={isSelected ? 'bg-field-green hover:bg-field-dark' : 'text-gray-600'}
+                >
+                  #{tag.name}
+                </Badge>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value.slice(0, MAX_TAG_NAME_LENGTH))}
+          onKeyDown={(e) => {
+            // Don't submit the surrounding form when creating a tag
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          placeholder="New tag, e.g. walk-off"
+          maxLength={MAX_TAG_NAME_LENGTH}
+          disabled={disabled || isFull}
+          className="h-8 text-sm"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleCreate}
+          disabled={disabled || isFull || !newTag.trim() || createTag.isPending}
+          aria-label="Create tag"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Tables } from '@/integrations/supabase/types';
+import { useGameLogs } from './useGameLogs';
+import { getRootedResult } from './useProfileStats';
+import { useVenues } from './useVenues';
+import { findVenue, isCurrentVenue, type Venue } from '@/utils/venues';
+
+// An attended game at a park, for listing what was seen there
+export interface BallparkGame {
+  logId: string;
+  date: string;
+  awayName: string;
+  homeName: string;
+  awayScore: number | null;
+  homeScore: number | null;
+  result: 'win' | 'loss' | null;
+}
+
+export interface BallparkVisits {
+  park: Venue;
+  visits: number;
+  firstVisit: string | null;
+  wins: number;
+  losses: number;
+  games: BallparkGame[];
+}
+
+const toVisits = (park: Venue, visitsByPark: Map<number, BallparkVisits>): BallparkVisits =>
+  visitsByPark.get(park.venue_id) || { park, visits: 0, firstVisit: null, wins: 0, losses: 0, games: [] };
+
+type AttendedLog = Pick<Tables<'user_game_logs'>, 'id' | 'game_id' | 'rooted_for'>;
+type BallparkScheduleGame = Pick<
+  Tables<'mlb_schedule'>,
+  'game_id' | 'game_date' | 'season' | 'venue_id' | 'venue_name' | 'retro_park_id' | 'home_name' | 'away_name' | 'home_score' | 'away_score'
+>;
+
+const groupVisitsByPark = (attendedLogs: AttendedLog[], games: BallparkScheduleGame[], venues: Venue[]) => {
+  const gameMap = Object.fromEntries(games.map(game => [String(game.game_id), game]));
+  const visitsByPark = new Map<number, BallparkVisits>();
+  // Venues that aren't a regular home park (international series, one-off games)
+  const otherVenues: Record<string, number> = {};
+
+  attendedLogs.forEach(log => {
+    const game = gameMap[String(log.game_id)];
+    if (!game) return;
+
+    const park = findVenue(venues, game);
+    if (!park) {
+      if (game.venue_name) otherVenues[game.venue_name] = (otherVenues[game.venue_name] || 0) + 1;
+      return;
+    }
+
+    const visits = toVisits(park, visitsByPark);
+    visits.visits++;
+    if (game.game_date && (!visits.firstVisit || game.game_date < visits.firstVisit)) {
+      visits.firstVisit = game.game_date;
+    }
+    const result = getRootedResult(log.rooted_for, game);
+    if (result === 'win') visits.wins++;
+    if (result === 'loss') visits.losses++;
+    visits.games.push({
+      logId: log.id,
+      date: game.game_date || '',
+      awayName: game.away_name || '',
+      homeName: game.home_name || '',
+      awayScore: game.away_score,
+      homeScore: game.home_score,
+      result,
+    });
+    visitsByPark.set(park.venue_id, visits);
+  });
+
+  visitsByPark.forEach(visits => visits.games.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const current = venues.filter(isCurrentVenue).map(park => toVisits(park, visitsByPark));
+  // Former homes, most recently closed first
+  const closed = venues
+    .filter(park => !isCurrentVenue(park))
+    .sort((a, b) => (b.closed_year ?? 0) - (a.closed_year ?? 0))
+    .map(park => toVisits(park, visitsByPark));
+  return {
+    current,
+    closed,
+    visitedCount: current.filter(park => park.visits > 0).length,
+    otherVenues: Object.entries(otherVenues).sort(([, a], [, b]) => b - a),
+  };
+};
+
+// Attended games grouped by ballpark, for the ballpark checklist
+export const useBallparkVisits = () => {
+  const { user } = useAuth();
+  const { data: gameLogs = [], isLoading: logsLoading } = useGameLogs();
+  const { data: venues = [], isLoading: venuesLoading } = useVenues();
+
+  const attendedLogs = useMemo(() => gameLogs.filter(log => log.mode === 'attended'), [gameLogs]);
+  const gameIds = useMemo(
+    () => [...new Set(attendedLogs.map(log => parseInt(log.game_id)))].sort((a, b) => a - b),
+    [attendedLogs]
+  );
+
+  const { data: games, isLoading: gamesLoading } = useQuery({
+    queryKey: ['ballpark-games', user?.id, gameIds],
+    queryFn: async () => {
+      if (gameIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('mlb_schedule')
+        .select('game_id, game_date, season, venue_id, venue_name, retro_park_id, home_name, away_name, home_score, away_score')
+        .in('game_id', gameIds);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !logsLoading,
+  });
+
+  const data = useMemo(
+    () => (user && games && !venuesLoading ? groupVisitsByPark(attendedLogs, games, venues) : undefined),
+    [user, games, venuesLoading, attendedLogs, venues]
+  );
+
+  return { data, isLoading: logsLoading || venuesLoading || gamesLoading };
+};
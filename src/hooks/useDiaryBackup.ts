@@ -0,0 +1,282 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { MAX_VIEWINGS_PER_GAME, validateGameLogInput } from './useGameLogs';
+import { toCompanions } from './usePeople';
+import { validateTripDetails } from './useTrips';
+
+export const DIARY_BACKUP_FORMAT = 'gameday-diary-backup';
+export const DIARY_BACKUP_VERSION = 2;
+
+// A diary entry as stored in a backup, with companions and tags kept by name so they survive a move between accounts.
+// trip_id points at one of the backup's trips.
+export interface DiaryBackupEntry extends Omit<Tables<'user_game_logs'>, 'user_id'> {
+  companions: string[];
+  tags: string[];
+}
+
+export type DiaryBackupTrip = Pick<Tables<'trips'>, 'id' | 'name' | 'start_date' | 'end_date' | 'notes'>;
+
+export interface DiaryBackup {
+  format: typeof DIARY_BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  entries: DiaryBackupEntry[];
+  people: string[];
+  tags: string[];
+  // Added in version 2
+  trips: DiaryBackupTrip[];
+  // Snapshot of the schedule rows the entries point at
+  games: Tables<'mlb_schedule'>[];
+}
+
+// What to do with a backup entry when the account already has that viewing of the game
+export type BackupConflictStrategy = 'skip' | 'replace' | 'keep_both';
+
+export interface RestoreResult {
+  added: number;
+  replaced: number;
+  skipped: number;
+  // Games added to the schedule from the backup's snapshot
+  restoredGames: number;
+  // Games that are neither on this schedule nor in the backup; their entries are left out
+  missingGames: string[];
+}
+
+const PAGE_SIZE = 1000;
+const IDS_PER_REQUEST = 200;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+const toOptionalNumber = (value: unknown) => (typeof value === 'number' ? value : undefined);
+const toOptionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const toTimestamp = (value: unknown) =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : null;
+
+// Check a parsed backup file and sanitize every entry the same way a normal save would
+export const parseDiaryBackup = (text: string): DiaryBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== DIARY_BACKUP_FORMAT) {
+    throw new Error('This file is not a Gameday Diary backup');
+  }
+  if (typeof data.version !== 'number' || data.version > DIARY_BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Refresh the page and try again.');
+  }
+  if (!Array.isArray(data.entries)) {
+    throw new Error('The backup has no entries');
+  }
+
+  const trips = (Array.isArray(data.trips) ? data.trips : []).map((trip, index): DiaryBackupTrip => {
+    if (!isRecord(trip) || typeof trip.id !== 'string') {
+      throw new Error(`Trip ${index + 1} in the backup is invalid`);
+    }
+
+    try {
+      return {
+        id: trip.id,
+        ...validateTripDetails({
+          name: toOptionalString(trip.name) ?? '',
+          start_date: toOptionalString(trip.start_date) ?? '',
+          end_date: toOptionalString(trip.end_date) ?? '',
+          notes: toOptionalString(trip.notes) ?? null,
+        }),
+      };
+    } catch (error) {
+      throw new Error(`Trip ${index + 1} in the backup is invalid: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  });
+  const tripIds = new Set(trips.map(trip => trip.id));
+
+  const entries = data.entries.map((entry, index): DiaryBackupEntry => {
+    if (!isRecord(entry)) {
+      throw new Error(`Entry ${index + 1} in the backup is invalid`);
+    }
+
+    try {
+      const validated = validateGameLogInput({
+        game_id: String(entry.game_id ?? '').trim(),
+        mode: entry.mode as 'attended' | 'watched',
+        rating: toOptionalNumber(entry.rating),
+        game_quality_rating: toOptionalNumber(entry.game_quality_rating),
+        atmosphere_rating: toOptionalNumber(entry.atmosphere_rating),
+        ballpark_rating: toOptionalNumber(entry.ballpark_rating),
+        rooted_for: toOptionalString(entry.rooted_for),
+        notes: toOptionalString(entry.notes),
+        seat_section: toOptionalString(entry.seat_section),
+        seat_row: toOptionalString(entry.seat_row),
+        seat_number: toOptionalString(entry.seat_number),
+        ticket_price: toOptionalNumber(entry.ticket_price),
+        ticket_source: toOptionalString(entry.ticket_source) as DiaryBackupEntry['ticket_source'],
+      });
+      const visitNumber = Number(entry.visit_number);
+
+      return {
+        id: typeof entry.id === 'string' ? entry.id : '',
+        game_id: validated.game_id,
+        mode: validated.mode,
+        rating: validated.rating ?? null,
+        game_quality_rating: validated.game_quality_rating ?? null,
+        atmosphere_rating: validated.atmosphere_rating ?? null,
+        ballpark_rating: validated.ballpark_rating ?? null,
+        rooted_for: validated.rooted_for,
+        notes: validated.notes,
+        seat_section: validated.seat_section,
+        seat_row: validated.seat_row,
+        seat_number: validated.seat_number,
+        ticket_price: validated.ticket_price,
+        ticket_source: validated.ticket_source,
+        visit_number: Number.isInteger(visitNumber) && visitNumber >= 1 && visitNumber <= MAX_VIEWINGS_PER_GAME ? visitNumber : 1,
+        created_at: toTimestamp(entry.created_at),
+        updated_at: toTimestamp(entry.updated_at),
+        deleted_at: toTimestamp(entry.deleted_at),
+        trip_id: typeof entry.trip_id === 'string' && tripIds.has(entry.trip_id) ? entry.trip_id : null,
+        companions: toStringList(entry.companions),
+        tags: toStringList(entry.tags),
+      };
+    } catch (error) {
+      throw new Error(`Entry ${index + 1} in the backup is invalid: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  });
+
+  return {
+    format: DIARY_BACKUP_FORMAT,
+    version: data.version,
+    exported_at: typeof data.exported_at === 'string' ? data.exported_at : '',
+    entries,
+    people: toStringList(data.people),
+    tags: toStringList(data.tags),
+    trips,
+    games: Array.isArray(data.games) ? data.games.filter(isRecord) as Tables<'mlb_schedule'>[] : [],
+  };
+};
+
+// Collect every diary entry (trashed ones included) plus the schedule rows they refer to
+export const useExportDiaryBackup = () => {
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (): Promise<DiaryBackup> => {
+      if (!user) throw new Error('Must be authenticated to back up your diary');
+
+      const logs = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('user_game_logs')
+          .select('*, game_log_companions(people(id, name)), game_log_tags(tags(id, name))')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        logs.push(...data);
+        if (data.length < PAGE_SIZE) break;
+      }
+
+      const [
+        { data: people, error: peopleError },
+        { data: tags, error: tagsError },
+        { data: trips, error: tripsError },
+      ] = await Promise.all([
+        supabase.from('people').select('name').eq('user_id', user.id).order('name'),
+        supabase.from('tags').select('name').eq('user_id', user.id).order('name'),
+        supabase.from('trips').select('id, name, start_date, end_date, notes').eq('user_id', user.id).order('start_date'),
+      ]);
+      if (peopleError) throw peopleError;
+      if (tagsError) throw tagsError;
+      if (tripsError) throw tripsError;
+
+      const games: Tables<'mlb_schedule'>[] = [];
+      const gameIds = [...new Set(logs.map(log => parseInt(log.game_id)).filter(id => !Number.isNaN(id)))];
+      for (const idChunk of chunk(gameIds, IDS_PER_REQUEST)) {
+        const { data, error } = await supabase
+          .from('mlb_schedule')
+          .select('*')
+          .in('game_id', idChunk);
+
+        if (error) throw error;
+        games.push(...data);
+      }
+
+      return {
+        format: DIARY_BACKUP_FORMAT,
+        version: DIARY_BACKUP_VERSION,
+        exported_at: new Date().toISOString(),
+        entries: logs.map(({ user_id, game_log_companions, game_log_tags, ...log }) => ({
+          ...log,
+          companions: toCompanions(game_log_companions).map(person => person.name),
+          tags: game_log_tags.flatMap(link => (link.tags ? [link.tags.name] : [])),
+        })),
+        people: people.map(person => person.name),
+        tags: tags.map(tag => tag.name),
+        trips,
+        games,
+      };
+    },
+  });
+};
+
+const toCount = (value: unknown, key: 'added' | 'replaced' | 'skipped' | 'restoredGames') =>
+  isRecord(value) ? Number(value[key]) || 0 : 0;
+
+// Restore a backup into the signed-in account. Entry ids are regenerated so a backup can move between accounts.
+// The whole restore runs in one database transaction, so a failure leaves the account as it was.
+export const useRestoreDiaryBackup = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ backup, strategy }: { backup: DiaryBackup; strategy: BackupConflictStrategy }): Promise<RestoreResult> => {
+      if (!user) throw new Error('Must be authenticated to restore a backup');
+
+      const { data, error } = await supabase.rpc('restore_diary_backup', {
+        backup: backup as unknown as Json,
+        strategy,
+      });
+      if (error) throw error;
+
+      const snapshotById = new Map(backup.games.map(game => [String(game.game_id), game]));
+      const describeGame = (gameId: string) => {
+        const game = snapshotById.get(gameId);
+        return game?.away_name && game.home_name
+          ? `${game.away_name} @ ${game.home_name}${game.game_date ? `, ${game.game_date}` : ''}`
+          : `Game ${gameId}`;
+      };
+
+      return {
+        added: toCount(data, 'added'),
+        replaced: toCount(data, 'replaced'),
+        skipped: toCount(data, 'skipped'),
+        restoredGames: toCount(data, 'restoredGames'),
+        missingGames: toStringList(isRecord(data) ? data.missingGames : []).map(describeGame),
+      };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['game-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['logged-games'] });
+      queryClient.invalidateQueries({ queryKey: ['people'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['trips'] });
+      queryClient.invalidateQueries({ queryKey: ['game-log-revisions'] });
+      queryClient.invalidateQueries({ queryKey: ['games'] });
+    },
+  });
+};
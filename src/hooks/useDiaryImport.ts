@@ -0,0 +1,259 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { getHistoricalTeamCode, mlbNameToCode } from '@/utils/team-name-map';
+import type { DiaryImportRow } from '@/utils/diaryImport';
+import { findVenue, getVenueTimeZone } from '@/utils/venues';
+import { getTeamVariants } from './useGames';
+import { venuesQueryOptions } from './useVenues';
+
+// A scheduled game an import row could refer to
+export interface ImportCandidate {
+  game_id: string;
+  date: string;
+  home_team: string;
+  away_team: string;
+  game_datetime: string | null;
+  // Start time at the ballpark in minutes after midnight
+  start_minutes: number | null;
+  game_num: number | null;
+  venue: string | null;
+}
+
+export type ImportMatchStatus = 'matched' | 'ambiguous' | 'unmatched' | 'logged';
+
+export interface ImportMatch {
+  row: DiaryImportRow;
+  status: ImportMatchStatus;
+  candidates: ImportCandidate[];
+  game: ImportCandidate | null;
+  reason: string | null;
+}
+
+// Dates per schedule request, kept low enough to stay under the API row limit
+const DATES_PER_REQUEST = 50;
+const IDS_PER_REQUEST = 200;
+
+// Abbreviations other sites use for the same franchises
+const ABBREVIATION_ALIASES: Record<string, string> = {
+  AZ: 'ARI',
+  ANA: 'LAA',
+  ATH: 'OAK',
+  CHW: 'CWS',
+  FLA: 'MIA',
+  KCR: 'KC',
+  MON: 'WSH',
+  SDP: 'SD',
+  SFG: 'SF',
+  TBD: 'TB',
+  TBR: 'TB',
+  WAS: 'WSH',
+  WSN: 'WSH',
+};
+
+const MLB_TEAM_NAMES = Object.keys(mlbNameToCode).filter(name => name.includes(' ') || name === 'Athletics');
+const MLB_TEAM_CODES = new Set(MLB_TEAM_NAMES.map(name => mlbNameToCode[name]));
+
+// Every full name a franchise has gone by, including historical ones
+const ALL_TEAM_NAMES = [...new Set([...MLB_TEAM_NAMES, ...[...MLB_TEAM_CODES].flatMap(getTeamVariants)])];
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Resolve whatever a spreadsheet calls a team (NYY, New York Yankees, Yankees, Boston) to a team code
+export const resolveTeamCode = (input: string, gameDate: string): string | null => {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const upper = trimmed.toUpperCase();
+  if (ABBREVIATION_ALIASES[upper]) return ABBREVIATION_ALIASES[upper];
+  if (MLB_TEAM_CODES.has(upper)) return upper;
+
+  const code = getHistoricalTeamCode(trimmed, 'MLB', gameDate);
+  if (code !== trimmed) return code;
+
+  // Fall back to a nickname or city, as long as it points to a single team that year
+  const lower = trimmed.toLowerCase();
+  const codes = new Set(
+    ALL_TEAM_NAMES
+      .filter(name => {
+        const lowerName = name.toLowerCase();
+        return lowerName === lower || lowerName.endsWith(` ${lower}`) || lowerName.startsWith(`${lower} `);
+      })
+      .map(name => getHistoricalTeamCode(name, 'MLB', gameDate))
+  );
+  return codes.size === 1 ? [...codes][0] : null;
+};
+
+// A team code matches a scheduled team under its name at the time or any of the franchise's other names
+const isSameTeam = (code: string, teamName: string, gameDate: string) => {
+  return getHistoricalTeamCode(teamName, 'MLB', gameDate) === code || getTeamVariants(code).includes(teamName);
+};
+
+// Read from the UTC start time in the park's time zone, so the result doesn't depend on the browser's
+const getStartMinutes = (gameDatetime: string | null, timeZone: string) => {
+  if (!gameDatetime) return null;
+  const start = parseISO(gameDatetime);
+  if (Number.isNaN(start.getTime())) return null;
+
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+    .formatToParts(start);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return part('hour') * 60 + part('minute');
+};
+
+// Narrow a doubleheader down to one game using the game number or the start time
+const pickFromDoubleheader = (row: DiaryImportRow, candidates: ImportCandidate[]) => {
+  if (row.gameNumber) {
+    const byNumber = candidates.filter(game => game.game_num === row.gameNumber);
+    if (byNumber.length === 1) return byNumber[0];
+  }
+
+  if (row.time !== null) {
+    const distances = candidates.map(game => {
+      const minutes = game.start_minutes;
+      return minutes === null ? Infinity : Math.abs(minutes - (row.time as number));
+    });
+    const closest = Math.min(...distances);
+    if (closest !== Infinity && distances.filter(distance => distance === closest).length === 1) {
+      return candidates[distances.indexOf(closest)];
+    }
+  }
+
+  return null;
+};
+
+const matchRow = (row: DiaryImportRow, gamesByDate: Record<string, ImportCandidate[]>): ImportMatch => {
+  const unmatched = (reason: string): ImportMatch => ({ row, status: 'unmatched', candidates: [], game: null, reason });
+
+  if (!row.date) return unmatched('Missing or unreadable date');
+  if (!row.awayTeam && !row.homeTeam) return unmatched('Missing teams');
+
+  const awayCode = row.awayTeam ? resolveTeamCode(row.awayTeam, row.date) : null;
+  const homeCode = row.homeTeam ? resolveTeamCode(row.homeTeam, row.date) : null;
+  if (row.awayTeam && !awayCode) return unmatched(`Unknown team "${row.awayTeam}"`);
+  if (row.homeTeam && !homeCode) return unmatched(`Unknown team "${row.homeTeam}"`);
+
+  const gamesOnDate = gamesByDate[row.date] || [];
+  const hasTeams = (game: ImportCandidate, away: string | null, home: string | null) =>
+    (!away || isSameTeam(away, game.away_team, row.date as string)) &&
+    (!home || isSameTeam(home, game.home_team, row.date as string));
+
+  // Spreadsheets often mix up home and away, so try the other way round when nothing matches
+  let candidates = gamesOnDate.filter(game => hasTeams(game, awayCode, homeCode));
+  if (candidates.length === 0) {
+    candidates = gamesOnDate.filter(game => hasTeams(game, homeCode, awayCode));
+  }
+
+  if (row.gameId) {
+    const exact = candidates.find(game => game.game_id === row.gameId);
+    if (exact) return { row, status: 'matched', candidates: [exact], game: exact, reason: null };
+  }
+
+  if (candidates.length === 0) {
+    return unmatched(gamesOnDate.length === 0 ? `No games scheduled on ${row.date}` : 'No game between these teams on that date');
+  }
+  if (candidates.length === 1) {
+    return { row, status: 'matched', candidates, game: candidates[0], reason: null };
+  }
+
+  const picked = pickFromDoubleheader(row, candidates);
+  if (picked) {
+    return { row, status: 'matched', candidates, game: picked, reason: null };
+  }
+  return {
+    row,
+    status: 'ambiguous',
+    candidates,
+    game: null,
+    reason: row.awayTeam && row.homeTeam
+      ? 'Doubleheader: add a start time or game number, or pick the game below'
+      : 'Several games match: pick one below',
+  };
+};
+
+// The team name to store as rooted_for, if the row's team played in the game
+export const getImportRootedFor = (row: DiaryImportRow, game: ImportCandidate): string | undefined => {
+  if (!row.rootedFor) return undefined;
+  const code = resolveTeamCode(row.rootedFor, game.date);
+  if (!code) return undefined;
+  if (isSameTeam(code, game.home_team, game.date)) return game.home_team;
+  if (isSameTeam(code, game.away_team, game.date)) return game.away_team;
+  return undefined;
+};
+
+// Resolve parsed spreadsheet rows to games in mlb_schedule without writing anything
+export const useMatchDiaryImport = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (rows: DiaryImportRow[]): Promise<ImportMatch[]> => {
+      if (!user) throw new Error('Must be authenticated to import game logs');
+
+      const dates = [...new Set(rows.map(row => row.date).filter((date): date is string => !!date))];
+      const gamesByDate: Record<string, ImportCandidate[]> = {};
+      const venues = await queryClient.fetchQuery(venuesQueryOptions);
+
+      for (const dateChunk of chunk(dates, DATES_PER_REQUEST)) {
+        const { data, error } = await supabase
+          .from('mlb_schedule')
+          .select('game_id, game_date, game_datetime, game_num, home_name, away_name, venue_id, venue_name, retro_park_id, season')
+          .in('game_date', dateChunk);
+
+        if (error) throw error;
+        data.forEach(game => {
+          if (!game.game_date || !game.home_name || !game.away_name) return;
+          if (!gamesByDate[game.game_date]) gamesByDate[game.game_date] = [];
+          gamesByDate[game.game_date].push({
+            game_id: game.game_id.toString(),
+            date: game.game_date,
+            home_team: game.home_name,
+            away_team: game.away_name,
+            game_datetime: game.game_datetime,
+            start_minutes: getStartMinutes(game.game_datetime, getVenueTimeZone(findVenue(venues, game))),
+            game_num: game.game_num,
+            venue: game.venue_name,
+          });
+        });
+      }
+
+      const matches = rows.map(row => matchRow(row, gamesByDate));
+
+      // Flag games that are already in the diary or appear earlier in the same file
+      const matchedIds = [...new Set(matches.flatMap(match => (match.game ? [match.game.game_id] : [])))];
+      const loggedIds = new Set<string>();
+      for (const idChunk of chunk(matchedIds, IDS_PER_REQUEST)) {
+        const { data, error } = await supabase
+          .from('user_game_logs')
+          .select('game_id')
+          .eq('user_id', user.id)
+          .is('deleted_at', null)
+          .in('game_id', idChunk);
+
+        if (error) throw error;
+        data.forEach(log => loggedIds.add(log.game_id));
+      }
+
+      const firstLines: Record<string, number> = {};
+      return matches.map(match => {
+        if (!match.game) return match;
+        const gameId = match.game.game_id;
+        if (loggedIds.has(gameId)) {
+          return { ...match, status: 'logged', reason: 'Already in your diary' };
+        }
+        if (firstLines[gameId]) {
+          return { ...match, status: 'logged', reason: `Same game as row ${firstLines[gameId]}` };
+        }
+        firstLines[gameId] = match.row.line;
+        return match;
+      });
+    },
+  });
+};
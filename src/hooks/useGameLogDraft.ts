@@ -0,0 +1,85 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Person } from './usePeople';
+
+// Unsaved GameLogModal values, kept in local storage so they survive an accidental close or reload
+export interface GameLogDraftValues {
+  mode: 'attended' | 'watched';
+  rating: number;
+  rootedFor: string;
+  notes: string;
+  companions: Person[];
+}
+
+export interface GameLogDraft extends GameLogDraftValues {
+  savedAt: number;
+}
+
+const DRAFT_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+export const isSameDraft = (a: GameLogDraftValues, b: GameLogDraftValues): boolean => {
+  const companionIds = (values: GameLogDraftValues) => values.companions.map(person => person.id).sort().join(',');
+
+  return a.mode === b.mode &&
+    a.rating === b.rating &&
+    a.rootedFor === b.rootedFor &&
+    a.notes === b.notes &&
+    companionIds(a) === companionIds(b);
+};
+
+const parseDraft = (raw: string | null): GameLogDraft | null => {
+  if (!raw) return null;
+
+  try {
+    const draft = JSON.parse(raw);
+    if (
+      !draft ||
+      !['attended', 'watched'].includes(draft.mode) ||
+      typeof draft.rating !== 'number' ||
+      typeof draft.rootedFor !== 'string' ||
+      typeof draft.notes !== 'string' ||
+      !Array.isArray(draft.companions) ||
+      typeof draft.savedAt !== 'number'
+    ) {
+      return null;
+    }
+    return draft as GameLogDraft;
+  } catch {
+    return null;
+  }
+};
+
+// `draftKey` identifies what is being edited: a game for new entries or an existing entry
+export const useGameLogDraft = (draftKey?: string) => {
+  const { user } = useAuth();
+  const storageKey = user && draftKey ? `gameLogDraft:${user.id}:${draftKey}` : null;
+
+  const loadDraft = useCallback((): GameLogDraft | null => {
+    if (!storageKey) return null;
+
+    const draft = parseDraft(localStorage.getItem(storageKey));
+    if (!draft || Date.now() - draft.savedAt > DRAFT_MAX_AGE_MS) {
+      localStorage.removeItem(storageKey);
+      return null;
+    }
+    return draft;
+  }, [storageKey]);
+
+  const saveDraft = useCallback((values: GameLogDraftValues) => {
+    if (!storageKey) return;
+
+    try {
+      const draft: GameLogDraft = { ...values, savedAt: Date.now() };
+      localStorage.setItem(storageKey, JSON.stringify(draft));
+    } catch {
+      // Storage can be full or unavailable (private browsing); drafts are best-effort
+    }
+  }, [storageKey]);
+
+  const clearDraft = useCallback(() => {
+    if (!storageKey) return;
+    localStorage.removeItem(storageKey);
+  }, [storageKey]);
+
+  return { loadDraft, saveDraft, clearDraft };
+};
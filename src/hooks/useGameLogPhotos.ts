@@ -0,0 +1,163 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Tables } from '@/integrations/supabase/types';
+
+export const GAME_LOG_PHOTOS_BUCKET = 'game-log-photos';
+export const MAX_PHOTOS_PER_ENTRY = 10;
+export const MAX_PHOTO_SIZE_BYTES = 10 * 1024 * 1024;
+export const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic'];
+
+// Signed URLs are valid for an hour; refetch a bit before they expire
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export type GameLogPhoto = Tables<'game_log_photos'> & { url: string };
+
+// Input validation helpers
+export const validatePhotoFile = (file: File) => {
+  if (!ALLOWED_PHOTO_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a supported image type`);
+  }
+
+  if (file.size > MAX_PHOTO_SIZE_BYTES) {
+    throw new Error(`${file.name} is larger than 10 MB`);
+  }
+};
+
+const buildStoragePath = (userId: string, gameLogId: string, file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  return `${userId}/${gameLogId}/${crypto.randomUUID()}.${extension}`;
+};
+
+// All of the user's photos grouped by game log id, with signed URLs for display
+export const useGameLogPhotos = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['game-log-photos', user?.id],
+    queryFn: async () => {
+      if (!user) return {};
+
+      const { data: photos, error } = await supabase
+        .from('game_log_photos')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      if (!photos || photos.length === 0) return {};
+
+      const { data: signedUrls, error: urlError } = await supabase.storage
+        .from(GAME_LOG_PHOTOS_BUCKET)
+        .createSignedUrls(photos.map(photo => photo.storage_path), SIGNED_URL_TTL_SECONDS);
+
+      if (urlError) throw urlError;
+
+      const urlByPath = Object.fromEntries(
+        (signedUrls || []).map(entry => [entry.path, entry.signedUrl])
+      );
+
+      const photosByLog: Record<string, GameLogPhoto[]> = {};
+      photos.forEach(photo => {
+        const url = urlByPath[photo.storage_path];
+        if (!url) return;
+        if (!photosByLog[photo.game_log_id]) {
+          photosByLog[photo.game_log_id] = [];
+        }
+        photosByLog[photo.game_log_id].push({ ...photo, url });
+      });
+
+      return photosByLog;
+    },
+    enabled: !!user,
+    staleTime: (SIGNED_URL_TTL_SECONDS - 5 * 60) * 1000,
+  });
+};
+
+export const useUploadGameLogPhotos = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ gameLogId, files, existingCount = 0 }: {
+      gameLogId: string;
+      files: File[];
+      existingCount?: number;
+    }) => {
+      if (!user) throw new Error('Must be authenticated to upload photos');
+
+      if (!gameLogId) {
+        throw new Error('Game log ID is required for photo uploads');
+      }
+
+      if (existingCount + files.length > MAX_PHOTOS_PER_ENTRY) {
+        throw new Error(`A diary entry can have at most ${MAX_PHOTOS_PER_ENTRY} photos`);
+      }
+
+      files.forEach(validatePhotoFile);
+
+      const uploaded: Tables<'game_log_photos'>[] = [];
+      for (const file of files) {
+        const storagePath = buildStoragePath(user.id, gameLogId, file);
+
+        const { error: uploadError } = await supabase.storage
+          .from(GAME_LOG_PHOTOS_BUCKET)
+          .upload(storagePath, file, { contentType: file.type, upsert: false });
+
+        if (uploadError) throw uploadError;
+
+        const { data, error } = await supabase
+          .from('game_log_photos')
+          .insert({
+            game_log_id: gameLogId,
+            storage_path: storagePath,
+            user_id: user.id, // Explicitly set user_id for security
+          })
+          .select()
+          .single();
+
+        if (error) {
+          // Don't leave an orphaned file behind if the row couldn't be written
+          await supabase.storage.from(GAME_LOG_PHOTOS_BUCKET).remove([storagePath]);
+          throw error;
+        }
+
+        uploaded.push(data);
+      }
+
+      return uploaded;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['game-log-photos'] });
+    },
+  });
+};
+
+export const useDeleteGameLogPhoto = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (photo: Pick<GameLogPhoto, 'id' | 'storage_path'>) => {
+      if (!user) throw new Error('Must be authenticated to delete photos');
+
+      const { error } = await supabase
+        .from('game_log_photos')
+        .delete()
+        .eq('id', photo.id)
+        .eq('user_id', user.id); // Double-check user ownership
+
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage
+        .from(GAME_LOG_PHOTOS_BUCKET)
+        .remove([photo.storage_path]);
+
+      if (storageError) throw storageError;
+      return photo.id;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['game-log-photos'] });
+    },
+  });
+};
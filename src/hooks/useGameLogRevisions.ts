@@ -0,0 +1,68 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Enums } from '@/integrations/supabase/types';
+import type { Person } from './usePeople';
+
+// The parts of a diary entry that are tracked in its history
+export interface GameLogSnapshot {
+  mode: Enums<'log_mode'>;
+  rating: number | null;
+  rooted_for: string | null;
+  notes: string | null;
+  companions: Person[];
+}
+
+export interface GameLogRevision extends GameLogSnapshot {
+  id: string;
+  created_at: string | null;
+}
+
+const toPeople = (value: unknown): Person[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((person): person is Person =>
+    !!person && typeof person.id === 'string' && typeof person.name === 'string'
+  );
+};
+
+export const useGameLogRevisions = (gameLogId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['game-log-revisions', gameLogId],
+    queryFn: async () => {
+      if (!user || !gameLogId) return [];
+
+      const { data, error } = await supabase
+        .from('game_log_revisions')
+        .select('id, mode, rating, rooted_for, notes, companions, created_at')
+        .eq('game_log_id', gameLogId)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data.map((revision): GameLogRevision => ({
+        ...revision,
+        companions: toPeople(revision.companions),
+      }));
+    },
+    enabled: !!user && !!gameLogId,
+  });
+};
+
+// Save the values an entry had before an edit
+export const recordGameLogRevision = async (gameLogId: string, userId: string, previous: GameLogSnapshot) => {
+  const { error } = await supabase
+    .from('game_log_revisions')
+    .insert({
+      game_log_id: gameLogId,
+      user_id: userId,
+      mode: previous.mode,
+      rating: previous.rating,
+      rooted_for: previous.rooted_for,
+      notes: previous.notes,
+      companions: previous.companions.map(({ id, name }) => ({ id, name })),
+    });
+
+  if (error) throw error;
+};
@@ -2,16 +2,72 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { Constants, type Enums, type Tables } from '@/integrations/supabase/types';
+import { setGameLogCompanions, toCompanions, MAX_COMPANIONS_PER_ENTRY, type Person } from './usePeople';
+import { setGameLogTags, toTags, MAX_TAGS_PER_ENTRY, type Tag } from './useTags';
+import { GAME_LOG_PHOTOS_BUCKET } from './useGameLogPhotos';
+import { recordGameLogRevision } from './useGameLogRevisions';
+
+export type TicketSource = Enums<'ticket_source'>;
+
+export const TICKET_SOURCE_LABELS: Record<TicketSource, string> = {
+  box_office: 'Box office',
+  online: 'Team website / app',
+  season_ticket: 'Season ticket',
+  secondary_market: 'Resale market',
+  gift: 'Gift',
+  giveaway: 'Giveaway / contest',
+  other: 'Other',
+};
+
+export const MAX_VIEWINGS_PER_GAME = 20;
+export const TRASH_RETENTION_DAYS = 30;
+export const MAX_BULK_LOG_GAMES = 100;
+
+export type GameLog = Tables<'user_game_logs'> & {
+  companions: Person[];
+  tags: Tag[];
+};
+
+// Ticket and seat details only apply to attended games
+export interface TicketDetails {
+  seat_section?: string | null;
+  seat_row?: string | null;
+  seat_number?: string | null;
+  ticket_price?: number | null;
+  ticket_source?: TicketSource | null;
+}
+
+// Optional breakdown of the overall rating
+export interface SubRatings {
+  game_quality_rating?: number | null;
+  atmosphere_rating?: number | null;
+  ballpark_rating?: number | null;
+}
+
+export const SUB_RATINGS: { key: keyof SubRatings; label: string; attendedOnly: boolean }[] = [
+  { key: 'game_quality_rating', label: 'Game quality', attendedOnly: false },
+  { key: 'atmosphere_rating', label: 'Atmosphere', attendedOnly: false },
+  { key: 'ballpark_rating', label: 'Ballpark experience', attendedOnly: true },
+];
+
+// Ratings go from half a star to five stars in half-star steps
+export const isValidRating = (rating: number) => {
+  return Number.isFinite(rating) && rating >= 0.5 && rating <= 5 && Number.isInteger(rating * 2);
+};
+
+export const formatRating = (rating: number) => (Number.isInteger(rating) ? `${rating}` : rating.toFixed(1));
 
 // Input validation helpers
-const validateGameLogInput = (gameLog: {
+export const validateGameLogInput = (gameLog: {
   game_id: string;
   mode: 'attended' | 'watched';
-  company?: string;
+  companion_ids?: string[];
+  tag_ids?: string[];
   rating?: number;
   rooted_for?: string;
   notes?: string;
-}) => {
+} & TicketDetails & SubRatings) => {
   // Validate required fields
   if (!gameLog.game_id || !gameLog.mode) {
     throw new Error('Game ID and mode are required');
@@ -24,17 +80,61 @@ const validateGameLogInput = (gameLog: {
 
   // Validate rating if provided
   if (gameLog.rating !== undefined && gameLog.rating !== null) {
-    if (!Number.isInteger(gameLog.rating) || gameLog.rating < 1 || gameLog.rating > 5) {
-      throw new Error('Rating must be an integer between 1 and 5');
+    if (!isValidRating(gameLog.rating)) {
+      throw new Error('Rating must be between 0.5 and 5 in half-star steps');
+    }
+  }
+
+  // Validate sub-ratings if provided
+  SUB_RATINGS.forEach(({ key, label }) => {
+    const value = gameLog[key];
+    if (value !== undefined && value !== null && !isValidRating(value)) {
+      throw new Error(`${label} rating must be between 0.5 and 5 in half-star steps`);
+    }
+  });
+
+  // Validate ticket price if provided
+  if (gameLog.ticket_price !== undefined && gameLog.ticket_price !== null) {
+    if (!Number.isFinite(gameLog.ticket_price) || gameLog.ticket_price < 0 || gameLog.ticket_price > 100000) {
+      throw new Error('Ticket price must be a number between 0 and 100,000');
     }
   }
 
+  // Validate ticket source if provided
+  if (gameLog.ticket_source && !Constants.public.Enums.ticket_source.includes(gameLog.ticket_source)) {
+    throw new Error('Invalid ticket source');
+  }
+
+  // Validate companions and tags if provided (undefined leaves the existing links untouched)
+  const companionIds = gameLog.companion_ids ? [...new Set(gameLog.companion_ids)] : undefined;
+  if (companionIds && companionIds.length > MAX_COMPANIONS_PER_ENTRY) {
+    throw new Error(`A diary entry can have at most ${MAX_COMPANIONS_PER_ENTRY} companions`);
+  }
+
+  const tagIds = gameLog.tag_ids ? [...new Set(gameLog.tag_ids)] : undefined;
+  if (tagIds && tagIds.length > MAX_TAGS_PER_ENTRY) {
+    throw new Error(`A diary entry can have at most ${MAX_TAGS_PER_ENTRY} tags`);
+  }
+
+  const isAttended = gameLog.mode === 'attended';
+
   // Sanitize text inputs
   const sanitizedGameLog = {
     ...gameLog,
-    company: gameLog.company?.trim().slice(0, 255) || null,
+    companion_ids: companionIds,
+    tag_ids: tagIds,
     notes: gameLog.notes?.trim().slice(0, 1000) || null,
     rooted_for: gameLog.rooted_for?.trim().slice(0, 100) || null,
+    // Drop ticket details for watched games so switching modes doesn't leave stale seats behind
+    seat_section: isAttended ? gameLog.seat_section?.trim().slice(0, 20) || null : null,
+    seat_row: isAttended ? gameLog.seat_row?.trim().slice(0, 10) || null : null,
+    seat_number: isAttended ? gameLog.seat_number?.trim().slice(0, 10) || null : null,
+    ticket_price: isAttended && gameLog.ticket_price != null
+      ? Math.round(gameLog.ticket_price * 100) / 100
+      : null,
+    ticket_source: isAttended ? gameLog.ticket_source || null : null,
+    // Undefined leaves a sub-rating untouched on update; ballpark only applies in person
+    ballpark_rating: isAttended ? gameLog.ballpark_rating : null,
   };
 
   return sanitizedGameLog;
@@ -50,12 +150,17 @@ export const useGameLogs = () => {
       
       const { data, error } = await supabase
         .from('user_game_logs')
-        .select('*')
+        .select('*, game_log_companions(people(id, name)), game_log_tags(tags(id, name))')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      return data;
+      return data.map(({ game_log_companions, game_log_tags, ...log }): GameLog => ({
+        ...log,
+        companions: toCompanions(game_log_companions),
+        tags: toTags(game_log_tags),
+      }));
     },
     enabled: !!user,
   });
@@ -69,26 +174,54 @@ export const useAddGameLog = () => {
     mutationFn: async (gameLog: {
       game_id: string;
       mode: 'attended' | 'watched';
-      company?: string;
+      companion_ids?: string[];
+      tag_ids?: string[];
       rating?: number;
       rooted_for?: string;
       notes?: string;
-    }) => {
+      repeat_viewing?: boolean;
+    } & TicketDetails & SubRatings) => {
       if (!user) throw new Error('Must be authenticated to add game logs');
 
       // Validate and sanitize input
-      const validatedGameLog = validateGameLogInput(gameLog);
+      const { repeat_viewing, ...input } = gameLog;
+      const { companion_ids, tag_ids, ...validatedGameLog } = validateGameLogInput(input);
+
+      // Only add another entry for a game the user already logged when they asked for a repeat viewing.
+      // Trashed entries don't count as duplicates but still hold on to their visit numbers.
+      const { data: existingLogs, error: existingError } = await supabase
+        .from('user_game_logs')
+        .select('id, visit_number, deleted_at')
+        .eq('user_id', user.id)
+        .eq('game_id', validatedGameLog.game_id)
+        .order('visit_number', { ascending: false });
+
+      if (existingError) throw existingError;
+      if (existingLogs.some(log => !log.deleted_at) && !repeat_viewing) {
+        throw new Error('This game is already in your diary. Edit the existing entry or log another viewing.');
+      }
+      if (existingLogs.length > 0 && existingLogs[0].visit_number >= MAX_VIEWINGS_PER_GAME) {
+        throw new Error(`A game can be logged at most ${MAX_VIEWINGS_PER_GAME} times`);
+      }
 
       const { data, error } = await supabase
         .from('user_game_logs')
         .insert({
           ...validatedGameLog,
+          visit_number: existingLogs.length > 0 ? existingLogs[0].visit_number + 1 : 1,
           user_id: user.id, // Explicitly set user_id for security
         })
         .select()
         .single();
 
+      // Unique violation means a concurrent submit already saved this viewing
+      if (error?.code === '23505') {
+        throw new Error('This game was just added to your diary.');
+      }
       if (error) throw error;
+
+      if (companion_ids) await setGameLogCompanions(data.id, user.id, companion_ids);
+      if (tag_ids) await setGameLogTags(data.id, user.id, tag_ids);
       return data;
     },
     onSuccess: () => {
@@ -97,6 +230,103 @@ export const useAddGameLog = () => {
   });
 };
 
+// Log several games at once with the same mode, company and (per game) rooted-for team.
+// Games already in the diary are skipped rather than duplicated.
+export const useBulkAddGameLogs = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (input: {
+      games: { game_id: string; rooted_for?: string }[];
+      mode: 'attended' | 'watched';
+      companion_ids?: string[];
+    }) => {
+      if (!user) throw new Error('Must be authenticated to add game logs');
+
+      if (input.games.length === 0) {
+        throw new Error('Select at least one game');
+      }
+      if (input.games.length > MAX_BULK_LOG_GAMES) {
+        throw new Error(`You can log at most ${MAX_BULK_LOG_GAMES} games at once`);
+      }
+
+      // Validate and sanitize each entry the same way as a single add
+      const validatedGameLogs = input.games.map(game => validateGameLogInput({
+        game_id: game.game_id.toString().trim(),
+        mode: input.mode,
+        companion_ids: input.companion_ids,
+        rooted_for: game.rooted_for,
+      }));
+
+      const { data: existingLogs, error: existingError } = await supabase
+        .from('user_game_logs')
+        .select('game_id, visit_number, deleted_at')
+        .eq('user_id', user.id)
+        .in('game_id', validatedGameLogs.map(log => log.game_id));
+
+      if (existingError) throw existingError;
+
+      // Trashed entries don't block a game but still hold on to their visit numbers
+      const loggedGameIds = new Set(existingLogs.filter(log => !log.deleted_at).map(log => log.game_id));
+      const lastVisits: Record<string, number> = {};
+      existingLogs.forEach(log => {
+        lastVisits[log.game_id] = Math.max(lastVisits[log.game_id] || 0, log.visit_number);
+      });
+
+      const seenGameIds = new Set<string>();
+      const newGameLogs = validatedGameLogs.filter(log => {
+        if (loggedGameIds.has(log.game_id) || seenGameIds.has(log.game_id)) return false;
+        seenGameIds.add(log.game_id);
+        return true;
+      });
+      const skipped = validatedGameLogs.length - newGameLogs.length;
+
+      if (newGameLogs.length === 0) {
+        return { added: [], skipped, companionsSaved: true };
+      }
+
+      const { data, error } = await supabase
+        .from('user_game_logs')
+        .insert(newGameLogs.map(({ companion_ids, tag_ids, ...log }) => ({
+          ...log,
+          visit_number: (lastVisits[log.game_id] || 0) + 1,
+          user_id: user.id, // Explicitly set user_id for security
+        })))
+        .select();
+
+      if (error?.code === '23505') {
+        throw new Error('Some of these games were just added to your diary. Refresh and try again.');
+      }
+      if (error) throw error;
+
+      const companionIds = validatedGameLogs[0].companion_ids || [];
+      let companionsSaved = true;
+      if (companionIds.length > 0) {
+        const { error: companionsError } = await supabase
+          .from('game_log_companions')
+          .insert(data.flatMap(log => companionIds.map(personId => ({
+            game_log_id: log.id,
+            person_id: personId,
+            user_id: user.id,
+          }))));
+
+        // The games are already logged, so report the missing companions instead of failing the whole add
+        if (companionsError) {
+          console.error('Error adding companions to game logs:', companionsError);
+          companionsSaved = false;
+        }
+      }
+
+      return { added: data, skipped, companionsSaved };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['game-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['logged-games'] });
+    },
+  });
+};
+
 export const useUpdateGameLog = () => {
   const queryClient = useQueryClient();
   const { user } = useAuth();
@@ -105,11 +335,12 @@ export const useUpdateGameLog = () => {
     mutationFn: async (gameLog: {
       id: string;
       mode: 'attended' | 'watched';
-      company?: string;
+      companion_ids?: string[];
+      tag_ids?: string[];
       rating?: number;
       rooted_for?: string;
       notes?: string;
-    }) => {
+    } & TicketDetails & SubRatings) => {
       if (!user) throw new Error('Must be authenticated to update game logs');
 
       if (!gameLog.id) {
@@ -122,14 +353,52 @@ export const useUpdateGameLog = () => {
         game_id: 'temp', // Required for validation but not used in update
       });
 
+      // Snapshot the current values so the edit can be recorded in the entry's history
+      const { data: previous, error: previousError } = await supabase
+        .from('user_game_logs')
+        .select('mode, rating, rooted_for, notes, game_log_companions(people(id, name))')
+        .eq('id', gameLog.id)
+        .eq('user_id', user.id)
+        .single();
+
+      if (previousError) throw previousError;
+
+      const previousCompanions = toCompanions(previous.game_log_companions);
+      const previousCompanionIds = previousCompanions.map(person => person.id).sort().join(',');
+      const hasTrackedChanges =
+        previous.mode !== validatedGameLog.mode ||
+        (validatedGameLog.rating !== undefined && previous.rating !== validatedGameLog.rating) ||
+        previous.rooted_for !== validatedGameLog.rooted_for ||
+        previous.notes !== validatedGameLog.notes ||
+        (validatedGameLog.companion_ids !== undefined &&
+          previousCompanionIds !== [...validatedGameLog.companion_ids].sort().join(','));
+
+      // Record the previous values before they're overwritten, so a failure part-way never loses them
+      if (hasTrackedChanges) {
+        await recordGameLogRevision(gameLog.id, user.id, {
+          mode: previous.mode,
+          rating: previous.rating,
+          rooted_for: previous.rooted_for,
+          notes: previous.notes,
+          companions: previousCompanions,
+        });
+      }
+
       const { data, error } = await supabase
         .from('user_game_logs')
         .update({
           mode: validatedGameLog.mode,
-          company: validatedGameLog.company,
           rating: validatedGameLog.rating,
           rooted_for: validatedGameLog.rooted_for,
           notes: validatedGameLog.notes,
+          seat_section: validatedGameLog.seat_section,
+          seat_row: validatedGameLog.seat_row,
+          seat_number: validatedGameLog.seat_number,
+          ticket_price: validatedGameLog.ticket_price,
+          ticket_source: validatedGameLog.ticket_source,
+          game_quality_rating: validatedGameLog.game_quality_rating,
+          atmosphere_rating: validatedGameLog.atmosphere_rating,
+          ballpark_rating: validatedGameLog.ballpark_rating,
           updated_at: new Date().toISOString(),
         })
         .eq('id', gameLog.id)
@@ -138,10 +407,19 @@ export const useUpdateGameLog = () => {
         .single();
 
       if (error) throw error;
+
+      if (validatedGameLog.companion_ids) {
+        await setGameLogCompanions(data.id, user.id, validatedGameLog.companion_ids);
+      }
+      if (validatedGameLog.tag_ids) {
+        await setGameLogTags(data.id, user.id, validatedGameLog.tag_ids);
+      }
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['game-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['logged-games'] });
+      queryClient.invalidateQueries({ queryKey: ['game-log-revisions'] });
     },
   });
 };
@@ -158,9 +436,10 @@ export const useDeleteGameLog = () => {
         throw new Error('Game log ID is required for deletion');
       }
 
+      // Move to the trash rather than deleting outright so the entry can be restored
       const { error } = await supabase
         .from('user_game_logs')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', gameLogId)
         .eq('user_id', user.id); // Double-check user ownership
 
@@ -207,3 +486,88 @@ export const useDeleteGameLog = () => {
     },
   });
 };
+
+export const useRestoreGameLog = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (gameLogId: string) => {
+      if (!user) throw new Error('Must be authenticated to restore game logs');
+
+      if (!gameLogId) {
+        throw new Error('Game log ID is required for restoring');
+      }
+
+      const { error } = await supabase
+        .from('user_game_logs')
+        .update({ deleted_at: null })
+        .eq('id', gameLogId)
+        .eq('user_id', user.id); // Double-check user ownership
+
+      if (error) throw error;
+      return gameLogId;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['game-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['logged-games'] });
+    },
+  });
+};
+
+export const usePurgeGameLogs = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (gameLogIds: string[]) => {
+      if (!user) throw new Error('Must be authenticated to delete game logs');
+
+      if (gameLogIds.length === 0) return [];
+
+      // Only entries already in the trash can be purged
+      const { data: trashed, error: trashedError } = await supabase
+        .from('user_game_logs')
+        .select('id')
+        .in('id', gameLogIds)
+        .eq('user_id', user.id) // Double-check user ownership
+        .not('deleted_at', 'is', null);
+
+      if (trashedError) throw trashedError;
+
+      const trashedIds = trashed.map(log => log.id);
+      if (trashedIds.length === 0) return [];
+
+      // Photo rows cascade with the entry, but the files themselves have to be removed from storage
+      const { data: photos, error: photosError } = await supabase
+        .from('game_log_photos')
+        .select('storage_path')
+        .in('game_log_id', trashedIds)
+        .eq('user_id', user.id);
+
+      if (photosError) throw photosError;
+
+      if (photos.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from(GAME_LOG_PHOTOS_BUCKET)
+          .remove(photos.map(photo => photo.storage_path));
+
+        if (storageError) throw storageError;
+      }
+
+      const { error } = await supabase
+        .from('user_game_logs')
+        .delete()
+        .in('id', trashedIds)
+        .eq('user_id', user.id) // Double-check user ownership
+        .not('deleted_at', 'is', null);
+
+      if (error) throw error;
+      return trashedIds;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['logged-games'] });
+      queryClient.invalidateQueries({ queryKey: ['game-log-photos'] });
+    },
+  });
+};
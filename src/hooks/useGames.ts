@@ -1,6 +1,8 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { normalizeTeamName } from '@/utils/team-name-map';
+import { findVenue, getVenueNames } from '@/utils/venues';
+import { venuesQueryOptions } from './useVenues';
 
 interface GameFilters {
   search: string;
@@ -14,7 +16,7 @@ interface GameFilters {
 }
 
 // Helper function to get all possible team abbreviation variants
-const getTeamVariants = (teamAbbr: string): string[] => {
+export const getTeamVariants = (teamAbbr: string): string[] => {
   const upperTeam = teamAbbr.toUpperCase();
   
   // MLB database stores team names as full names, use the normalization map
@@ -62,6 +64,8 @@ const generateDiaryEntries = (gameId: string): number => {
 };
 
 export const useGames = (filters: GameFilters) => {
+  const queryClient = useQueryClient();
+
   return useQuery({
     queryKey: ['games', filters],
     queryFn: async () => {
@@ -133,9 +137,27 @@ export const useGames = (filters: GameFilters) => {
         mlbQuery = mlbQuery.or(orConditions);
       }
 
-      // Apply venue filter
+      // Apply venue filter - match the park by venue_id or any name it has gone by, so a
+      // renamed park (Safeco Field / T-Mobile Park) is still one venue
       if (filters.venue) {
-        mlbQuery = mlbQuery.eq('venue_name', filters.venue);
+        const venue = findVenue(await queryClient.fetchQuery(venuesQueryOptions), {
+          venue_id: /^-?\d+$/.test(filters.venue) ? parseInt(filters.venue) : null,
+          venue_name: filters.venue,
+          season: filters.season ? parseInt(filters.season) : null,
+        });
+
+        if (venue) {
+          // Name matches are limited to the park's seasons - old and new Yankee Stadium share a name
+          const names = getVenueNames(venue).map(name => `"${name.replace(/"/g, '\\"')}"`).join(',');
+          const nameConditions = [
+            `venue_name.in.(${names})`,
+            venue.opened_year !== null ? `season.gte.${venue.opened_year}` : '',
+            venue.closed_year !== null ? `season.lte.${venue.closed_year}` : '',
+          ].filter(Boolean).join(',');
+          mlbQuery = mlbQuery.or(`venue_id.eq.${venue.venue_id},and(${nameConditions})`);
+        } else {
+          mlbQuery = mlbQuery.eq('venue_name', filters.venue);
+        }
       }
       
       if (filters.playoff === 'true') {
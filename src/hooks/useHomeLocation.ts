@@ -0,0 +1,65 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface HomeLocation {
+  label: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const useHomeLocation = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['home-location', user?.id],
+    queryFn: async () => {
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from('user_home_locations')
+        .select('label, latitude, longitude')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as HomeLocation | null;
+    },
+    enabled: !!user,
+  });
+};
+
+export const useSetHomeLocation = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (home: HomeLocation) => {
+      if (!user) throw new Error('Must be authenticated to set a home location');
+
+      const label = home.label.trim().slice(0, 100);
+      if (!label) {
+        throw new Error('Home location needs a name');
+      }
+      if (Math.abs(home.latitude) > 90 || Math.abs(home.longitude) > 180) {
+        throw new Error('Home location coordinates are out of range');
+      }
+
+      const { error } = await supabase
+        .from('user_home_locations')
+        .upsert({
+          user_id: user.id,
+          label,
+          latitude: home.latitude,
+          longitude: home.longitude,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['home-location'] });
+      queryClient.invalidateQueries({ queryKey: ['profile-stats'] });
+    },
+  });
+};
@@ -2,8 +2,11 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import type { Tables } from '@/integrations/supabase/types';
 import { normalizeTeamName } from '@/utils/team-name-map';
 import { getTeamAbbreviation } from '@/utils/teamLogos';
+import { toCompanions } from './usePeople';
+import { toTags } from './useTags';
 
 // Function to generate consistent random diary entries based on game_id
 const generateDiaryEntries = (gameId: string): number => {
@@ -12,6 +15,42 @@ const generateDiaryEntries = (gameId: string): number => {
   return Math.floor(random * (10000 - 9 + 1)) + 9;
 };
 
+// Stand-in for a trashed entry's game that is no longer on the schedule, so the entry can still be restored or purged
+const toMissingGame = (gameId: string): Tables<'mlb_schedule'> => ({
+  id: gameId,
+  game_id: parseInt(gameId),
+  season: 0,
+  game_date: null,
+  game_datetime: null,
+  game_num: null,
+  doubleheader: null,
+  game_type: null,
+  status: null,
+  home_id: null,
+  home_name: null,
+  away_id: null,
+  away_name: null,
+  home_score: null,
+  away_score: null,
+  home_probable_pitcher: null,
+  away_probable_pitcher: null,
+  home_pitcher_note: null,
+  away_pitcher_note: null,
+  current_inning: null,
+  inning_state: null,
+  venue_id: null,
+  venue_name: null,
+  winning_team: null,
+  losing_team: null,
+  winning_pitcher: null,
+  losing_pitcher: null,
+  save_pitcher: null,
+  summary: null,
+  retro_game_id: null,
+  retro_park_id: null,
+  created_at: null,
+});
+
 export const useLoggedGames = (filters: {
   mode: string;
   startDate?: string;
@@ -20,6 +59,9 @@ export const useLoggedGames = (filters: {
   season?: string;
   playoff?: string;
   search?: string;
+  tag?: string;
+  trip?: string;
+  trash?: boolean;
 }) => {
   const { user } = useAuth();
   
@@ -31,10 +73,15 @@ export const useLoggedGames = (filters: {
       console.log('Fetching logged games for user:', user.id);
       
       // First, fetch all user game logs - RLS will automatically filter to current user
-      const { data: gameLogs, error: logsError } = await supabase
+      const logsQuery = supabase
         .from('user_game_logs')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('*, game_log_companions(people(id, name)), game_log_tags(tags(id, name))');
+
+      // The trash view shows soft-deleted entries; everything else hides them
+      const { data: gameLogs, error: logsError } = await (filters.trash
+        ? logsQuery.not('deleted_at', 'is', null)
+        : logsQuery.is('deleted_at', null)
+      ).order('created_at', { ascending: false });
 
       if (logsError) {
         console.error('Error fetching game logs:', logsError);
@@ -70,7 +117,8 @@ export const useLoggedGames = (filters: {
         console.log('Looking for game with ID:', log.game_id);
         
         // Find the corresponding MLB game
-        const game = mlbGames?.find(g => g.game_id?.toString() === log.game_id?.toString());
+        const game = mlbGames?.find(g => g.game_id?.toString() === log.game_id?.toString())
+          ?? (filters.trash ? toMissingGame(log.game_id) : undefined);
         
         if (!game) {
           console.log('No game found for log:', log);
@@ -83,7 +131,7 @@ export const useLoggedGames = (filters: {
         return {
           ...game,
           // Ensure proper field mapping for MLB games
-          game_id: game.game_id?.toString() || log.game_id,
+          game_id: log.game_id,
           date: game.game_date,
           home_team: game.home_name,
           away_team: game.away_name,
@@ -92,20 +140,32 @@ export const useLoggedGames = (filters: {
           venue: game.venue_name,
           league: 'MLB' as const,
           playoff: ['W', 'D', 'L'].includes(game.game_type),
-          diaryEntries: generateDiaryEntries(game.game_id.toString()),
+          diaryEntries: generateDiaryEntries(log.game_id),
           // Add log metadata
           logData: {
             id: log.id,
             mode: log.mode,
-            company: log.company,
+            companions: toCompanions(log.game_log_companions),
+            tags: toTags(log.game_log_tags),
             rating: log.rating,
+            game_quality_rating: log.game_quality_rating,
+            atmosphere_rating: log.atmosphere_rating,
+            ballpark_rating: log.ballpark_rating,
             rooted_for: log.rooted_for,
             notes: log.notes,
+            seat_section: log.seat_section,
+            seat_row: log.seat_row,
+            seat_number: log.seat_number,
+            ticket_price: log.ticket_price,
+            ticket_source: log.ticket_source,
+            visit_number: log.visit_number,
+            trip_id: log.trip_id,
+            deleted_at: log.deleted_at,
             created_at: log.created_at,
             updated_at: log.updated_at
           }
         };
-      }).filter(Boolean);
+      }).filter((game): game is NonNullable<typeof game> => game !== null);
 
       // Apply filters
       let filteredGames = enrichedGames;
@@ -115,6 +175,16 @@ export const useLoggedGames = (filters: {
         filteredGames = filteredGames.filter(game => game.logData.mode === filters.mode);
       }
 
+      // Tag filter
+      if (filters.tag) {
+        filteredGames = filteredGames.filter(game => game.logData.tags.some(tag => tag.id === filters.tag));
+      }
+
+      // Trip filter
+      if (filters.trip) {
+        filteredGames = filteredGames.filter(game => game.logData.trip_id === filters.trip);
+      }
+
       // League filter
       if (filters.league) {
         filteredGames = filteredGames.filter(game => game.league === filters.league);
@@ -172,8 +242,8 @@ export const useLoggedGames = (filters: {
 
       // Sort by game datetime descending (newest first), then by venue
       const sortedGames = filteredGames.sort((a, b) => {
-        const dateA = a.date || a.game_date;
-        const dateB = b.date || b.game_date;
+        const dateA = a.date || a.game_date || '';
+        const dateB = b.date || b.game_date || '';
         
         // First sort by date
         const dateComparison = dateB.localeCompare(dateA);
@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface Person {
+  id: string;
+  name: string;
+}
+
+export const MAX_COMPANIONS_PER_ENTRY = 20;
+
+// Shape returned by the `game_log_companions(people(id, name))` embed on user_game_logs
+type CompanionLinkRow = { people: Person | null };
+
+// Flatten embedded companion rows into a sorted list of people
+export const toCompanions = (links: CompanionLinkRow[] | null | undefined): Person[] => {
+  return (links || [])
+    .map(link => link.people)
+    .filter((person): person is Person => !!person)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const formatCompanions = (companions: Person[]): string => {
+  return companions.map(person => person.name).join(', ');
+};
+
+export const usePeople = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['people', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('people')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .order('name');
+
+      if (error) throw error;
+      return data as Person[];
+    },
+    enabled: !!user,
+  });
+};
+
+export const useCreatePerson = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      if (!user) throw new Error('Must be authenticated to add people');
+
+      const trimmedName = name.trim().slice(0, 100);
+      if (!trimmedName) {
+        throw new Error('Name is required');
+      }
+
+      // Reuse an existing person rather than tripping the case-insensitive unique index
+      const { data: existing, error: lookupError } = await supabase
+        .from('people')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .ilike('name', trimmedName.replace(/[%_\\]/g, '\\$&'))
+        .maybeSingle();
+
+      if (lookupError) throw lookupError;
+      if (existing) return existing as Person;
+
+      const { data, error } = await supabase
+        .from('people')
+        .insert({
+          name: trimmedName,
+          user_id: user.id, // Explicitly set user_id for security
+        })
+        .select('id, name')
+        .single();
+
+      if (error) throw error;
+      return data as Person;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['people'] });
+    },
+  });
+};
+
+// Replace the companion links on a game log with the given people
+export const setGameLogCompanions = async (gameLogId: string, userId: string, personIds: string[]) => {
+  const { error: deleteError } = await supabase
+    .from('game_log_companions')
+    .delete()
+    .eq('game_log_id', gameLogId)
+    .eq('user_id', userId);
+
+  if (deleteError) throw deleteError;
+  if (personIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('game_log_companions')
+    .insert(personIds.map(personId => ({
+      game_log_id: gameLogId,
+      person_id: personId,
+      user_id: userId,
+    })));
+
+  if (error) throw error;
+};
@@ -2,20 +2,67 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { useGameLogs } from './useGameLogs';
+import { useGameLogs, SUB_RATINGS } from './useGameLogs';
+import { useVenues } from './useVenues';
+import { useHomeLocation } from './useHomeLocation';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
 import { getTeamAbbreviation } from '@/utils/teamLogos';
+import { findVenue, getVenueKey } from '@/utils/venues';
+import { getDistanceMiles, getLoopMiles, groupTravel, type TravelStop } from '@/utils/travel';
 
 const ensureAbbreviation = (team: string, league: 'MLB' | 'NFL', date: string): string => {
   if (team.length === 3 && team === team.toUpperCase()) return team;
   return getTeamAbbreviation(team, league, date);
 };
 
-export const useProfileStats = () => {
+// Wild Card, Division, League Championship and World Series games
+const POSTSEASON_GAME_TYPES = ['F', 'D', 'L', 'W'];
+
+// Narrows the stats to part of the diary; empty fields mean no restriction
+export interface ProfileStatsScope {
+  season?: string;
+  mode?: string; // 'attended' | 'watched'
+  rootedFor?: string; // team abbreviation
+  gameType?: string; // 'regular' | 'postseason'
+}
+
+// The team a log rooted for as an abbreviation, or null when it didn't pick one
+const getRootedAbbreviation = (rootedFor: string | null, date: string) =>
+  rootedFor && rootedFor !== 'none' ? ensureAbbreviation(rootedFor, 'MLB', date) : null;
+
+interface ScoredGame {
+  game_date: string | null;
+  home_name: string | null;
+  away_name: string | null;
+  home_score: number | null;
+  away_score: number | null;
+}
+
+// Whether the team a log rooted for won or lost; null when there's no pick or no winner
+export const getRootedResult = (rootedFor: string | null, game: ScoredGame): 'win' | 'loss' | null => {
+  const date = game.game_date || '';
+  const rooted = getRootedAbbreviation(rootedFor, date);
+  const homeScore = game.home_score ?? 0;
+  const awayScore = game.away_score ?? 0;
+  if (!rooted || homeScore === awayScore) return null;
+
+  const homeTeam = ensureAbbreviation(game.home_name || '', 'MLB', date);
+  const awayTeam = ensureAbbreviation(game.away_name || '', 'MLB', date);
+  const winner = homeScore > awayScore ? homeTeam : awayTeam;
+  const loser = homeScore > awayScore ? awayTeam : homeTeam;
+  if (rooted === winner) return 'win';
+  if (rooted === loser) return 'loss';
+  return null;
+};
+
+export const useProfileStats = (scope: ProfileStatsScope = {}) => {
   const { user } = useAuth();
   const { data: gameLogs = [], isLoading: logsLoading } = useGameLogs();
+  const { data: venues = [], isLoading: venuesLoading } = useVenues();
+  const { data: home = null, isLoading: homeLoading } = useHomeLocation();
 
   return useQuery({
-    queryKey: ['profile-stats', user?.id, gameLogs],
+    queryKey: ['profile-stats', user?.id, gameLogs, venues, home, scope],
     queryFn: async () => {
       if (!user || !gameLogs || gameLogs.length === 0) return null;
 
@@ -38,10 +85,31 @@ export const useProfileStats = () => {
       // Create a map for quick game lookup
       const gameMap = Object.fromEntries(mlbGames.map(g => [String(g.game_id), g]));
 
-      // Filter game logs to only include those with corresponding games
+      // Seasons with logged games, newest first, for picking a scope
+      const seasons = [...new Set(gameLogs
+        .map(log => gameMap[String(log.game_id)]?.game_date?.slice(0, 4))
+        .filter((season): season is string => !!season))]
+        .sort((a, b) => b.localeCompare(a));
+
+      // Teams the user has rooted for, for picking a scope
+      const rootedTeams = [...new Set(gameLogs
+        .map(log => {
+          const game = gameMap[String(log.game_id)];
+          return game ? getRootedAbbreviation(log.rooted_for, game.game_date || '') : null;
+        })
+        .filter((team): team is string => !!team))]
+        .sort();
+
+      // Filter game logs to only include those with corresponding games in scope
       const filteredGameLogs = gameLogs.filter(log => {
         const game = gameMap[String(log.game_id)];
-        return !!game;
+        if (!game) return false;
+        if (scope.season && game.game_date?.slice(0, 4) !== scope.season) return false;
+        if (scope.mode && log.mode !== scope.mode) return false;
+        if (scope.rootedFor && getRootedAbbreviation(log.rooted_for, game.game_date || '') !== scope.rootedFor) return false;
+        if (scope.gameType === 'regular' && game.game_type !== 'R') return false;
+        if (scope.gameType === 'postseason' && !POSTSEASON_GAME_TYPES.includes(game.game_type || '')) return false;
+        return true;
       });
 
       const totalGames = filteredGameLogs.length;
@@ -53,23 +121,41 @@ export const useProfileStats = () => {
         ? Math.round((ratedGames.reduce((sum, log) => sum + log.rating, 0) / ratedGames.length) * 10) / 10
         : 0;
 
-      // Rating breakdown
+      // Rating breakdown - half stars count toward the whole star below them (4.5 is in the 4 bucket)
+      const getRatingBucket = (rating: number | null) => Math.max(1, Math.floor(rating || 0));
       const ratingBreakdown = {
-        1: ratedGames.filter(log => log.rating === 1).length,
-        2: ratedGames.filter(log => log.rating === 2).length,
-        3: ratedGames.filter(log => log.rating === 3).length,
-        4: ratedGames.filter(log => log.rating === 4).length,
-        5: ratedGames.filter(log => log.rating === 5).length,
+        1: ratedGames.filter(log => getRatingBucket(log.rating) === 1).length,
+        2: ratedGames.filter(log => getRatingBucket(log.rating) === 2).length,
+        3: ratedGames.filter(log => getRatingBucket(log.rating) === 3).length,
+        4: ratedGames.filter(log => getRatingBucket(log.rating) === 4).length,
+        5: ratedGames.filter(log => getRatingBucket(log.rating) === 5).length,
       };
 
-      // Top venues - only count attended games
-      const attendedVenueCounts: Record<string, number> = {};
+      // Average of each sub-rating across the entries that have one
+      const subRatingAverages = SUB_RATINGS.map(({ key, label }) => {
+        const values = filteredGameLogs.map(log => log[key]).filter((value): value is number => !!value);
+        return {
+          key,
+          label,
+          count: values.length,
+          avg: values.length
+            ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+            : 0,
+        };
+      }).filter(subRating => subRating.count > 0);
+
+      // Current name of the park a game was played at, so renamed parks read the same everywhere
+      const getVenueName = (game: (typeof mlbGames)[number]) => getVenueKey(venues, game).name;
+
+      // Top venues - only count attended games, grouped by park rather than the name it had that day
+      const attendedVenueCounts: Record<string, { name: string; count: number }> = {};
       filteredGameLogs.forEach(log => {
         const game = gameMap[String(log.game_id)];
         if (!game) return;
         
         if (game.venue_name && log.mode === 'attended') {
-          attendedVenueCounts[game.venue_name] = (attendedVenueCounts[game.venue_name] || 0) + 1;
+          const { key, name } = getVenueKey(venues, game);
+          attendedVenueCounts[key] = { name, count: (attendedVenueCounts[key]?.count || 0) + 1 };
         }
       });
 
@@ -78,9 +164,18 @@ export const useProfileStats = () => {
       const teamCounts: Record<string, number> = {};
       const teamWins: Record<string, number> = {};
       const teamLosses: Record<string, number> = {};
+      const companionRecords: Record<string, { name: string; games: number; wins: number; losses: number }> = {};
       let totalRuns = 0;
       let wins = 0;
       let losses = 0;
+      const rootedResults: {
+        result: 'win' | 'loss';
+        time: number;
+        team: string;
+        teams: string;
+        score: string;
+        date: string | null;
+      }[] = [];
       let highestScoringGame = { runs: 0, teams: '', date: '', venue: '' };
       let lowestScoringGame = { runs: Infinity, teams: '', date: '', venue: '' };
 
@@ -90,39 +185,43 @@ export const useProfileStats = () => {
 
         const date = new Date(game.game_date || game.game_datetime);
         const dateString = date.toISOString();
+        const rootedResult = getRootedResult(log.rooted_for, game);
 
         // Rooted for counts
-        const rootedRaw = log.rooted_for;
-        if (rootedRaw && rootedRaw !== 'none') {
-          const rooted = ensureAbbreviation(rootedRaw, 'MLB', dateString);
+        const rooted = getRootedAbbreviation(log.rooted_for, game.game_date || '');
+        if (rooted) {
           rootedForCounts[rooted] = (rootedForCounts[rooted] || 0) + 1;
+        }
 
-          // Win/loss calc
-          const homeScore = game.home_score ?? 0;
-          const awayScore = game.away_score ?? 0;
-          const homeTeam = ensureAbbreviation(game.home_name, 'MLB', dateString);
-          const awayTeam = ensureAbbreviation(game.away_name, 'MLB', dateString);
-
-          let winner: string | undefined;
-          let loser: string | undefined;
-
-          if (homeScore > awayScore) {
-            winner = homeTeam;
-            loser = awayTeam;
-          } else if (awayScore > homeScore) {
-            winner = awayTeam;
-            loser = homeTeam;
-          }
-
-          if (rooted === winner) {
+        // Win/loss - games with no winner (ties, no score yet) don't count toward the record
+        if (rooted && rootedResult) {
+          if (rootedResult === 'win') {
             wins++;
             teamWins[rooted] = (teamWins[rooted] || 0) + 1;
-          } else if (rooted === loser) {
+          } else {
             losses++;
             teamLosses[rooted] = (teamLosses[rooted] || 0) + 1;
           }
+
+          rootedResults.push({
+            result: rootedResult,
+            time: new Date(game.game_datetime || game.game_date || '').getTime(),
+            team: rooted,
+            teams: `${ensureAbbreviation(game.away_name || '', 'MLB', dateString)} @ ${ensureAbbreviation(game.home_name || '', 'MLB', dateString)}`,
+            score: `${game.away_score ?? 0}-${game.home_score ?? 0}`,
+            date: game.game_date,
+          });
         }
 
+        // Companion breakdown - games together and record when rooting
+        log.companions.forEach(person => {
+          const record = companionRecords[person.id] || { name: person.name, games: 0, wins: 0, losses: 0 };
+          record.games++;
+          if (rootedResult === 'win') record.wins++;
+          if (rootedResult === 'loss') record.losses++;
+          companionRecords[person.id] = record;
+        });
+
         // Total runs
         const gameRuns = (game.home_score ?? 0) + (game.away_score ?? 0);
         totalRuns += gameRuns;
@@ -136,7 +235,7 @@ export const useProfileStats = () => {
             runs: gameRuns,
             teams: `${awayAbbr} @ ${homeAbbr}`,
             date: game.game_date,
-            venue: game.venue_name || ''
+            venue: getVenueName(game)
           };
         }
 
@@ -146,7 +245,7 @@ export const useProfileStats = () => {
             runs: gameRuns,
             teams: `${awayAbbr} @ ${homeAbbr}`,
             date: game.game_date,
-            venue: game.venue_name || ''
+            venue: getVenueName(game)
           };
         }
 
@@ -155,34 +254,6 @@ export const useProfileStats = () => {
         teamCounts[awayAbbr] = (teamCounts[awayAbbr] || 0) + 1;
       });
 
-      // Get last 5 rooted games (most recent first)
-      const rootedGameLogs = filteredGameLogs
-        .filter(log => log.rooted_for && log.rooted_for !== 'none')
-        .map(log => ({ ...log, game: gameMap[String(log.game_id)] }))
-        .filter(log => log.game)
-        .sort((a, b) => {
-          const gameTimeA = new Date(a.game.game_datetime || a.game.game_date).getTime();
-          const gameTimeB = new Date(b.game.game_datetime || b.game.game_date).getTime();
-          return gameTimeB - gameTimeA;
-        })
-        .slice(0, 5)
-        .map(log => {
-          const { game } = log;
-          const homeScore = game.home_score ?? 0;
-          const awayScore = game.away_score ?? 0;
-          const homeAbbr = ensureAbbreviation(game.home_name, 'MLB', game.game_date || game.game_datetime);
-          const awayAbbr = ensureAbbreviation(game.away_name, 'MLB', game.game_date || game.game_datetime);
-          const rootedAbbr = ensureAbbreviation(log.rooted_for, 'MLB', game.game_date || game.game_datetime);
-
-          let won = false;
-          if (homeScore !== awayScore) {
-            const winner = homeScore > awayScore ? homeAbbr : awayAbbr;
-            won = rootedAbbr === winner;
-          }
-
-          return { won };
-        });
-
       const mostSupportedTeamEntry = Object.entries(rootedForCounts).sort(([, a], [, b]) => b - a)[0];
       const mostSupportedTeam = mostSupportedTeamEntry ? {
         team: mostSupportedTeamEntry[0],
@@ -193,9 +264,128 @@ export const useProfileStats = () => {
       const mostLossesEntry = Object.entries(teamLosses).sort(([, a], [, b]) => b - a)[0];
       const teamBreakdown = Object.entries(teamCounts).sort(([, a], [, b]) => b - a).slice(0, 5);
 
-      const attendedVenueBreakdown = Object.entries(attendedVenueCounts).sort(([, a], [, b]) => b - a).slice(0, 5);
+      const companionBreakdown = Object.entries(companionRecords)
+        .map(([id, record]) => ({ id, ...record }))
+        .sort((a, b) => b.games - a.games || a.name.localeCompare(b.name))
+        .slice(0, 5);
+      const mostFrequentCompanion = companionBreakdown[0] || null;
+
+      const attendedVenueBreakdown = Object.values(attendedVenueCounts)
+        .map(({ name, count }): [string, number] => [name, count])
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 5);
       const highestRatedGame = Math.max(...ratedGames.map(log => log.rating), 0);
 
+      // Top-rated entry, the most recent one when several share the rating
+      const bestRatedLog = ratedGames
+        .map(log => ({ log, game: gameMap[String(log.game_id)] }))
+        .sort((a, b) => (b.log.rating || 0) - (a.log.rating || 0) || (b.game.game_date || '').localeCompare(a.game.game_date || ''))[0];
+      const bestRatedGame = bestRatedLog ? {
+        rating: bestRatedLog.log.rating || 0,
+        teams: `${ensureAbbreviation(bestRatedLog.game.away_name || '', 'MLB', bestRatedLog.game.game_date || '')} @ ${ensureAbbreviation(bestRatedLog.game.home_name || '', 'MLB', bestRatedLog.game.game_date || '')}`,
+        date: bestRatedLog.game.game_date || '',
+        venue: getVenueName(bestRatedLog.game),
+      } : null;
+
+      // Win and loss streaks in rooted games, in the order they were played
+      rootedResults.sort((a, b) => a.time - b.time);
+      let longestWinStreak = 0;
+      let longestLossStreak = 0;
+      let streakResult: 'win' | 'loss' | null = null;
+      let streakCount = 0;
+      rootedResults.forEach(({ result }) => {
+        streakCount = result === streakResult ? streakCount + 1 : 1;
+        streakResult = result;
+        if (result === 'win') longestWinStreak = Math.max(longestWinStreak, streakCount);
+        else longestLossStreak = Math.max(longestLossStreak, streakCount);
+      });
+      // The run the most recent rooted game is part of
+      const currentStreak = rootedResults.length > 0
+        ? { result: rootedResults[rootedResults.length - 1].result, count: streakCount }
+        : null;
+
+      // Last 5 decided rooted games, most recent first
+      const last5Games = rootedResults.slice(-5).reverse().map(({ result, team, teams, score, date }) => ({
+        won: result === 'win',
+        team,
+        teams,
+        score,
+        date,
+      }));
+
+      const last10Results = rootedResults.slice(-10);
+      const last10Record = {
+        wins: last10Results.filter(({ result }) => result === 'win').length,
+        losses: last10Results.filter(({ result }) => result === 'loss').length,
+      };
+
+      // Longest run of calendar days with at least one logged game
+      const gameDays = [...new Set(filteredGameLogs
+        .map(log => gameMap[String(log.game_id)]?.game_date)
+        .filter((date): date is string => !!date))]
+        .sort();
+      let longestDayStreak = { days: 0, start: '', end: '' };
+      let runStart = 0;
+      gameDays.forEach((day, index) => {
+        if (index > 0 && differenceInCalendarDays(parseISO(day), parseISO(gameDays[index - 1])) !== 1) {
+          runStart = index;
+        }
+        const days = index - runStart + 1;
+        if (days > longestDayStreak.days) {
+          longestDayStreak = { days, start: gameDays[runStart], end: day };
+        }
+      });
+
+      // Travel - attended games at parks in the registry, measured from the user's home when set
+      const attendedVenues = filteredGameLogs
+        .filter(log => log.mode === 'attended')
+        .flatMap(log => {
+          const game = gameMap[String(log.game_id)];
+          const venue = game ? findVenue(venues, game) : null;
+          return game && venue ? [{ game, venue }] : [];
+        });
+      const distinctCities = new Set(attendedVenues
+        .filter(({ venue }) => venue.city)
+        .map(({ venue }) => `${venue.city}, ${venue.state || ''}`)).size;
+      const distinctStates = new Set(attendedVenues.map(({ venue }) => venue.state).filter(Boolean)).size;
+
+      const travelStops: TravelStop[] = attendedVenues.flatMap(({ game, venue }) =>
+        game.game_date && venue.latitude !== null && venue.longitude !== null
+          ? [{
+            date: game.game_date,
+            venueId: venue.venue_id,
+            venueName: venue.name,
+            latitude: venue.latitude,
+            longitude: venue.longitude,
+          }]
+          : []
+      );
+
+      let travel = null;
+      if (home && travelStops.length > 0) {
+        const { groups, roadTrips } = groupTravel(home, travelStops);
+        // Each outing is one loop from home; a road trip's games share a single loop
+        const milesBySeasonCounts: Record<string, number> = {};
+        groups.forEach(group => {
+          const season = group[0].date.slice(0, 4);
+          milesBySeasonCounts[season] = (milesBySeasonCounts[season] || 0) + getLoopMiles(home, group);
+        });
+        const totalMiles = Math.round(Object.values(milesBySeasonCounts).reduce((sum, miles) => sum + miles, 0));
+        const farthestStop = travelStops
+          .map(stop => ({ name: stop.venueName, miles: Math.round(getDistanceMiles(home, stop)) }))
+          .sort((a, b) => b.miles - a.miles)[0];
+
+        travel = {
+          totalMiles,
+          milesPerGame: Math.round(totalMiles / travelStops.length),
+          milesBySeason: Object.entries(milesBySeasonCounts)
+            .map(([season, miles]): [string, number] => [season, Math.round(miles)])
+            .sort(([a], [b]) => b.localeCompare(a)),
+          farthestPark: farthestStop,
+          roadTrips: roadTrips.sort((a, b) => b.start.localeCompare(a.start)),
+        };
+      }
+
       // Calculate average runs per game
       const avgRunsPerGame = totalGames > 0 ? Math.round((totalRuns / totalGames) * 10) / 10 : 0;
 
@@ -205,6 +395,7 @@ export const useProfileStats = () => {
         gamesAttended,
         avgRating,
         ratingBreakdown,
+        subRatingAverages,
         ratedGamesCount: ratedGames.length,
         winRecord: { wins, losses },
         teamWinRecord: {
@@ -212,16 +403,31 @@ export const useProfileStats = () => {
           mostLosses: mostLossesEntry ? { team: mostLossesEntry[0], count: mostLossesEntry[1] } : null,
         },
         highestRatedGame,
+        bestRatedGame,
+        longestWinStreak,
+        longestLossStreak,
+        currentStreak,
+        last10Record,
+        longestDayStreak: longestDayStreak.days > 0 ? longestDayStreak : null,
         teamBreakdown,
         mostSupportedTeam,
         totalRuns,
         avgRunsPerGame,
-        last5Games: rootedGameLogs,
+        last5Games,
         highestScoringGame: highestScoringGame.runs > 0 ? highestScoringGame : null,
         lowestScoringGame: lowestScoringGame.runs < Infinity ? lowestScoringGame : null,
         attendedVenueBreakdown,
+        companionBreakdown,
+        mostFrequentCompanion,
+        soloGames: filteredGameLogs.filter(log => log.companions.length === 0).length,
+        seasons,
+        rootedTeams,
+        home,
+        travel,
+        distinctCities,
+        distinctStates,
       };
     },
-    enabled: !!user && !!gameLogs && gameLogs.length > 0,
+    enabled: !!user && !!gameLogs && gameLogs.length > 0 && !venuesLoading && !homeLoading,
   });
 };
@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { RetrosheetScheduleRow } from '@/utils/retrosheet';
+
+// Games per import_retrosheet_games call, about half a season
+const GAMES_PER_REQUEST = 1000;
+
+export const useIsAdmin = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['is-admin', user?.id],
+    queryFn: async () => {
+      if (!user) return false;
+
+      const { data, error } = await supabase.rpc('is_app_admin');
+      if (error) throw error;
+      return !!data;
+    },
+    enabled: !!user,
+  });
+};
+
+const toCount = (value: unknown, key: 'inserted' | 'updated') =>
+  value && typeof value === 'object' && key in value ? Number((value as Record<string, unknown>)[key]) || 0 : 0;
+
+export const useImportRetrosheetGames = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ rows, onProgress }: { rows: RetrosheetScheduleRow[]; onProgress?: (done: number) => void }) => {
+      if (!user) throw new Error('Must be authenticated to import schedule data');
+
+      if (rows.length === 0) {
+        throw new Error('No games to import');
+      }
+
+      let inserted = 0;
+      let updated = 0;
+      for (let i = 0; i < rows.length; i += GAMES_PER_REQUEST) {
+        const batch = rows.slice(i, i + GAMES_PER_REQUEST);
+        const { data, error } = await supabase.rpc('import_retrosheet_games', { games: batch });
+
+        if (error) throw error;
+        inserted += toCount(data, 'inserted');
+        updated += toCount(data, 'updated');
+        onProgress?.(i + batch.length);
+      }
+
+      return { inserted, updated };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['games'] });
+    },
+  });
+};
@@ -0,0 +1,107 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface Tag {
+  id: string;
+  name: string;
+}
+
+export const MAX_TAGS_PER_ENTRY = 20;
+export const MAX_TAG_NAME_LENGTH = 30;
+
+// Shape returned by the `game_log_tags(tags(id, name))` embed on user_game_logs
+type TagLinkRow = { tags: Tag | null };
+
+// Flatten embedded tag rows into a sorted list of tags
+export const toTags = (links: TagLinkRow[] | null | undefined): Tag[] => {
+  return (links || [])
+    .map(link => link.tags)
+    .filter((tag): tag is Tag => !!tag)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const useTags = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['tags', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .order('name');
+
+      if (error) throw error;
+      return data as Tag[];
+    },
+    enabled: !!user,
+  });
+};
+
+export const useCreateTag = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      if (!user) throw new Error('Must be authenticated to add tags');
+
+      const trimmedName = name.trim().toLowerCase().slice(0, MAX_TAG_NAME_LENGTH);
+      if (!trimmedName) {
+        throw new Error('Tag name is required');
+      }
+
+      // Reuse an existing tag rather than tripping the case-insensitive unique index
+      const { data: existing, error: lookupError } = await supabase
+        .from('tags')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .ilike('name', trimmedName.replace(/[%_\\]/g, '\\$&'))
+        .maybeSingle();
+
+      if (lookupError) throw lookupError;
+      if (existing) return existing as Tag;
+
+      const { data, error } = await supabase
+        .from('tags')
+        .insert({
+          name: trimmedName,
+          user_id: user.id, // Explicitly set user_id for security
+        })
+        .select('id, name')
+        .single();
+
+      if (error) throw error;
+      return data as Tag;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    },
+  });
+};
+
+// Replace the tag links on a game log with the given tags
+export const setGameLogTags = async (gameLogId: string, userId: string, tagIds: string[]) => {
+  const { error: deleteError } = await supabase
+    .from('game_log_tags')
+    .delete()
+    .eq('game_log_id', gameLogId)
+    .eq('user_id', userId);
+
+  if (deleteError) throw deleteError;
+  if (tagIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('game_log_tags')
+    .insert(tagIds.map(tagId => ({
+      game_log_id: gameLogId,
+      tag_id: tagId,
+      user_id: userId,
+    })));
+
+  if (error) throw error;
+};
@@ -0,0 +1,199 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Tables } from '@/integrations/supabase/types';
+import { format, parseISO } from 'date-fns';
+
+export type Trip = Tables<'trips'>;
+
+export interface TripDetails {
+  name: string;
+  start_date: string;
+  end_date: string;
+  notes: string | null;
+}
+
+export const MAX_TRIP_NAME_LENGTH = 100;
+export const MAX_TRIP_NOTES_LENGTH = 5000;
+
+// Whether a game date (YYYY-MM-DD) falls inside the trip's dates
+export const isWithinTrip = (trip: Pick<Trip, 'start_date' | 'end_date'>, date: string | null | undefined) =>
+  !!date && date >= trip.start_date && date <= trip.end_date;
+
+// "Jun 3 – Jun 9, 2024", dropping the repeated year
+export const formatTripDates = ({ start_date, end_date }: Pick<Trip, 'start_date' | 'end_date'>) => {
+  try {
+    const start = parseISO(start_date);
+    const end = parseISO(end_date);
+    if (start_date === end_date) return format(start, 'MMM d, yyyy');
+    if (start.getFullYear() !== end.getFullYear()) return `${format(start, 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`;
+    return `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+  } catch (error) {
+    return `${start_date} – ${end_date}`;
+  }
+};
+
+export const validateTripDetails = (details: TripDetails): TripDetails => {
+  const name = details.name.trim().slice(0, MAX_TRIP_NAME_LENGTH);
+  if (!name) {
+    throw new Error('Trip name is required');
+  }
+  if (!details.start_date || !details.end_date) {
+    throw new Error('Trip needs a start and end date');
+  }
+  if (details.end_date < details.start_date) {
+    throw new Error('Trip end date must be on or after the start date');
+  }
+
+  const notes = details.notes?.trim() || null;
+  if (notes && notes.length > MAX_TRIP_NOTES_LENGTH) {
+    throw new Error(`Trip notes must be ${MAX_TRIP_NOTES_LENGTH} characters or fewer`);
+  }
+
+  return { name, start_date: details.start_date, end_date: details.end_date, notes };
+};
+
+export const useTrips = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['trips', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      return data as Trip[];
+    },
+    enabled: !!user,
+  });
+};
+
+export const useTrip = (tripId: string | undefined) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['trips', user?.id, tripId],
+    queryFn: async () => {
+      if (!user || !tripId) return null;
+
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*')
+        .eq('id', tripId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as Trip | null;
+    },
+    enabled: !!user && !!tripId,
+  });
+};
+
+export const useCreateTrip = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (details: TripDetails) => {
+      if (!user) throw new Error('Must be authenticated to create trips');
+
+      const { data, error } = await supabase
+        .from('trips')
+        .insert({
+          ...validateTripDetails(details),
+          user_id: user.id, // Explicitly set user_id for security
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return data as Trip;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trips'] });
+    },
+  });
+};
+
+export const useUpdateTrip = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, ...details }: TripDetails & { id: string }) => {
+      if (!user) throw new Error('Must be authenticated to update trips');
+
+      const { error } = await supabase
+        .from('trips')
+        .update({
+          ...validateTripDetails(details),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('user_id', user.id); // Double-check user ownership
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trips'] });
+    },
+  });
+};
+
+// Deleting a trip leaves its entries in the diary, just no longer grouped
+export const useDeleteTrip = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (tripId: string) => {
+      if (!user) throw new Error('Must be authenticated to delete trips');
+
+      const { error } = await supabase
+        .from('trips')
+        .delete()
+        .eq('id', tripId)
+        .eq('user_id', user.id); // Double-check user ownership
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trips'] });
+      queryClient.invalidateQueries({ queryKey: ['game-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['logged-games'] });
+    },
+  });
+};
+
+// Attach entries to a trip, or detach them when tripId is null. An entry is on at most one trip,
+// so attaching moves it off any trip it was on before.
+export const useSetTripEntries = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ tripId, gameLogIds }: { tripId: string | null; gameLogIds: string[] }) => {
+      if (!user) throw new Error('Must be authenticated to change trips');
+      if (gameLogIds.length === 0) return;
+
+      const { error } = await supabase
+        .from('user_game_logs')
+        .update({ trip_id: tripId })
+        .in('id', gameLogIds)
+        .eq('user_id', user.id); // Double-check user ownership
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['game-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['logged-games'] });
+    },
+  });
+};
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Venue } from '@/utils/venues';
+
+// The whole registry is a few dozen rows, so callers load it once and match in memory
+const fetchVenues = async (): Promise<Venue[]> => {
+  const { data, error } = await supabase
+    .from('venues')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Shared with queryClient.fetchQuery so lookups outside components reuse the same cache
+export const venuesQueryOptions = {
+  queryKey: ['venues'],
+  queryFn: fetchVenues,
+  staleTime: 1000 * 60 * 60 * 24, // Cache for 24 hours since the registry rarely changes
+};
+
+export const useVenues = () => {
+  return useQuery(venuesQueryOptions);
+};
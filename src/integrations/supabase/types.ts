@@ -9,6 +9,172 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      app_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      game_log_companions: {
+        Row: {
+          created_at: string | null
+          game_log_id: string
+          person_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          game_log_id: string
+          person_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          game_log_id?: string
+          person_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_log_companions_game_log_id_fkey"
+            columns: ["game_log_id"]
+            isOneToOne: false
+            referencedRelation: "user_game_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_log_companions_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_log_photos: {
+        Row: {
+          caption: string | null
+          created_at: string | null
+          game_log_id: string
+          id: string
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          caption?: string | null
+          created_at?: string | null
+          game_log_id: string
+          id?: string
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          caption?: string | null
+          created_at?: string | null
+          game_log_id?: string
+          id?: string
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_log_photos_game_log_id_fkey"
+            columns: ["game_log_id"]
+            isOneToOne: false
+            referencedRelation: "user_game_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_log_revisions: {
+        Row: {
+          companions: Json
+          created_at: string | null
+          game_log_id: string
+          id: string
+          mode: Database["public"]["Enums"]["log_mode"]
+          notes: string | null
+          rating: number | null
+          rooted_for: string | null
+          user_id: string
+        }
+        Insert: {
+          companions?: Json
+          created_at?: string | null
+          game_log_id: string
+          id?: string
+          mode: Database["public"]["Enums"]["log_mode"]
+          notes?: string | null
+          rating?: number | null
+          rooted_for?: string | null
+          user_id: string
+        }
+        Update: {
+          companions?: Json
+          created_at?: string | null
+          game_log_id?: string
+          id?: string
+          mode?: Database["public"]["Enums"]["log_mode"]
+          notes?: string | null
+          rating?: number | null
+          rooted_for?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_log_revisions_game_log_id_fkey"
+            columns: ["game_log_id"]
+            isOneToOne: false
+            referencedRelation: "user_game_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_log_tags: {
+        Row: {
+          created_at: string | null
+          game_log_id: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          game_log_id: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          game_log_id?: string
+          tag_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_log_tags_game_log_id_fkey"
+            columns: ["game_log_id"]
+            isOneToOne: false
+            referencedRelation: "user_game_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_log_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mlb_schedule: {
         Row: {
           away_id: number | null
@@ -33,6 +199,8 @@ export type Database = {
           inning_state: string | null
           losing_pitcher: string | null
           losing_team: string | null
+          retro_game_id: string | null
+          retro_park_id: string | null
           save_pitcher: string | null
           season: number
           status: string | null
@@ -65,6 +233,8 @@ export type Database = {
           inning_state?: string | null
           losing_pitcher?: string | null
           losing_team?: string | null
+          retro_game_id?: string | null
+          retro_park_id?: string | null
           save_pitcher?: string | null
           season: number
           status?: string | null
@@ -97,6 +267,8 @@ export type Database = {
           inning_state?: string | null
           losing_pitcher?: string | null
           losing_team?: string | null
+          retro_game_id?: string | null
+          retro_park_id?: string | null
           save_pitcher?: string | null
           season?: number
           status?: string | null
@@ -147,42 +319,227 @@ export type Database = {
         }
         Relationships: []
       }
+      people: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      trips: {
+        Row: {
+          created_at: string | null
+          end_date: string
+          id: string
+          name: string
+          notes: string | null
+          start_date: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          end_date: string
+          id?: string
+          name: string
+          notes?: string | null
+          start_date: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          end_date?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          start_date?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_game_logs: {
         Row: {
-          company: string | null
+          atmosphere_rating: number | null
+          ballpark_rating: number | null
           created_at: string | null
+          deleted_at: string | null
           game_id: string
+          game_quality_rating: number | null
           id: string
           mode: Database["public"]["Enums"]["log_mode"]
           notes: string | null
           rating: number | null
           rooted_for: string | null
+          seat_number: string | null
+          seat_row: string | null
+          seat_section: string | null
+          ticket_price: number | null
+          ticket_source: Database["public"]["Enums"]["ticket_source"] | null
+          trip_id: string | null
           updated_at: string | null
           user_id: string
+          visit_number: number
         }
         Insert: {
-          company?: string | null
+          atmosphere_rating?: number | null
+          ballpark_rating?: number | null
           created_at?: string | null
+          deleted_at?: string | null
           game_id: string
+          game_quality_rating?: number | null
           id?: string
           mode: Database["public"]["Enums"]["log_mode"]
           notes?: string | null
           rating?: number | null
           rooted_for?: string | null
+          seat_number?: string | null
+          seat_row?: string | null
+          seat_section?: string | null
+          ticket_price?: number | null
+          ticket_source?: Database["public"]["Enums"]["ticket_source"] | null
+          trip_id?: string | null
           updated_at?: string | null
           user_id: string
+          visit_number?: number
         }
         Update: {
-          company?: string | null
+          atmosphere_rating?: number | null
+          ballpark_rating?: number | null
           created_at?: string | null
+          deleted_at?: string | null
           game_id?: string
+          game_quality_rating?: number | null
           id?: string
           mode?: Database["public"]["Enums"]["log_mode"]
           notes?: string | null
           rating?: number | null
           rooted_for?: string | null
+          seat_number?: string | null
+          seat_row?: string | null
+          seat_section?: string | null
+          ticket_price?: number | null
+          ticket_source?: Database["public"]["Enums"]["ticket_source"] | null
+          trip_id?: string | null
           updated_at?: string | null
           user_id?: string
+          visit_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_game_logs_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_home_locations: {
+        Row: {
+          label: string
+          latitude: number
+          longitude: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          label: string
+          latitude: number
+          longitude: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          label?: string
+          latitude?: number
+          longitude?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      venues: {
+        Row: {
+          capacity: number | null
+          city: string | null
+          closed_year: number | null
+          created_at: string
+          former_names: string[]
+          home_team: string | null
+          latitude: number | null
+          longitude: number | null
+          name: string
+          opened_year: number | null
+          retro_park_ids: string[]
+          state: string | null
+          venue_id: number
+        }
+        Insert: {
+          capacity?: number | null
+          city?: string | null
+          closed_year?: number | null
+          created_at?: string
+          former_names?: string[]
+          home_team?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          opened_year?: number | null
+          retro_park_ids?: string[]
+          state?: string | null
+          venue_id: number
+        }
+        Update: {
+          capacity?: number | null
+          city?: string | null
+          closed_year?: number | null
+          created_at?: string
+          former_names?: string[]
+          home_team?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          opened_year?: number | null
+          retro_park_ids?: string[]
+          state?: string | null
+          venue_id?: number
         }
         Relationships: []
       }
@@ -191,10 +548,29 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      import_retrosheet_games: {
+        Args: { games: Json }
+        Returns: Json
+      }
+      is_app_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      restore_diary_backup: {
+        Args: { backup: Json; strategy: string }
+        Returns: Json
+      }
     }
     Enums: {
       log_mode: "attended" | "watched"
+      ticket_source:
+        | "box_office"
+        | "online"
+        | "season_ticket"
+        | "secondary_market"
+        | "gift"
+        | "giveaway"
+        | "other"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -311,6 +687,15 @@ export const Constants = {
   public: {
     Enums: {
       log_mode: ["attended", "watched"],
+      ticket_source: [
+        "box_office",
+        "online",
+        "season_ticket",
+        "secondary_market",
+        "gift",
+        "giveaway",
+        "other",
+      ],
     },
   },
 } as const
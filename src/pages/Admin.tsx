@@ -10,6 +10,7 @@ import { Loader2, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { validateTeamMappingsForYear, generateValidationReport } from '@/utils/validation';
 import { MLB_TEAM_MAPPINGS } from '@/utils/team-mappings';
+import { RetrosheetImport } from '@/components/admin/RetrosheetImport';
 
 const Admin = () => {
   const { user } = useAuth();
@@ -334,6 +335,8 @@ const Admin = () => {
               {renderValidationStatus()}
             </CardContent>
           </Card>
+
+          <RetrosheetImport />
         </div>
       </div>
     </Layout>
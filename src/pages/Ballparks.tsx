@@ -0,0 +1,200 @@
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle2, Circle, Landmark, Loader2, MapPin } from 'lucide-react';
+import Layout from '@/components/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BallparkMap } from '@/components/ballparks/BallparkMap';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBallparkVisits, type BallparkVisits } from '@/hooks/useBallparks';
+import { getTeamLogo } from '@/utils/teamLogos';
+import { getVenueLocation } from '@/utils/venues';
+
+const formatVisitDate = (date: string | null) => {
+  if (!date) return '—';
+  try {
+    return format(parseISO(date), 'MMM d, yyyy');
+  } catch (error) {
+    return date;
+  }
+};
+
+const formatRecord = ({ wins, losses }: BallparkVisits) => (wins + losses > 0 ? `${wins}-${losses}` : '—');
+
+const Ballparks = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { data, isLoading } = useBallparkVisits();
+
+  // Visited parks first, in the order they were first visited, then the rest alphabetically
+  const currentParks = [...(data?.current || [])].sort((a, b) => {
+    if (a.firstVisit && b.firstVisit) return a.firstVisit.localeCompare(b.firstVisit);
+    if (a.firstVisit || b.firstVisit) return a.firstVisit ? -1 : 1;
+    return a.park.name.localeCompare(b.park.name);
+  });
+  const visitedCount = data?.visitedCount || 0;
+  const totalParks = data?.current.length || 0;
+  const progress = totalParks ? Math.round((visitedCount / totalParks) * 100) : 0;
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="flex justify-center items-center space-x-3 mb-4">
+            <Landmark className="h-10 w-10 text-field-green" />
+            <h1 className="text-4xl font-bold text-gray-900">Ballparks</h1>
+          </div>
+          <p className="text-lg text-gray-600">
+            Check off every major league park you've seen a game in.
+          </p>
+        </div>
+
+        {authLoading || (user && isLoading) ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-field-green" />
+            <span className="ml-2 text-gray-600">Loading your ballparks...</span>
+          </div>
+        ) : !user || !data ? (
+          <div className="text-center py-12">
+            <Landmark className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Sign in to track your ballparks</h3>
+            <Link to="/auth">
+              <Button className="bg-field-green hover:bg-field-dark">Sign In</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Progress */}
+            <div className="max-w-xl mx-auto">
+              <div className="flex justify-between items-baseline mb-2">
+                <span className="text-2xl font-bold text-gray-900">
+                  {visitedCount} of {totalParks}
+                </span>
+                <span className="text-sm text-gray-600">current ballparks visited</span>
+              </div>
+              <div className="h-3 rounded-full bg-gray-200 overflow-hidden">
+                <div className="h-full bg-field-green transition-all duration-1000 ease-out" style={{ width: `${progress}%` }} />
+              </div>
+            </div>
+
+            {/* Map */}
+            <Card className="bg-white shadow-sm border border-gray-200">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-gray-900 flex items-center">
+                  <MapPin className="h-5 w-5 mr-2 text-field-green" />
+                  Ballpark Map
+                </CardTitle>
+                <p className="text-sm text-gray-600">Select a pin to see the games you attended there.</p>
+              </CardHeader>
+              <CardContent>
+                <BallparkMap parks={[...data.current, ...data.closed]} />
+              </CardContent>
+            </Card>
+
+            {/* Current parks */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {currentParks.map(visits => {
+                const visited = visits.visits > 0;
+                return (
+                  <Card
+                    key={visits.park.venue_id}
+                    className={`bg-white shadow-sm border ${visited ? 'border-field-green' : 'border-gray-200'}`}
+                  >
+                    <CardContent className="p-4 flex items-start space-x-3">
+                      <img
+                        src={getTeamLogo(visits.park.home_team || '', 'MLB')}
+                        alt={visits.park.home_team || ''}
+                        className={`h-10 w-10 object-contain flex-shrink-0 ${visited ? '' : 'opacity-40 grayscale'}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between">
+                          <span className="font-semibold text-gray-900 truncate" title={visits.park.name}>
+                            {visits.park.name}
+                          </span>
+                          {visited ? (
+                            <CheckCircle2 className="h-5 w-5 text-field-green flex-shrink-0" />
+                          ) : (
+                            <Circle className="h-5 w-5 text-gray-300 flex-shrink-0" />
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">{getVenueLocation(visits.park)}</div>
+                        {visited ? (
+                          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs text-gray-700">
+                            <span>First visit: {formatVisitDate(visits.firstVisit)}</span>
+                            <span>{visits.visits} {visits.visits === 1 ? 'game' : 'games'}</span>
+                            <span>Record: {formatRecord(visits)}</span>
+                          </div>
+                        ) : (
+                          <div className="mt-2 text-xs text-gray-400">Not visited yet</div>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+
+            {/* Closed parks */}
+            <Card className="bg-white shadow-sm border border-gray-200">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-gray-900">Former Ballparks</CardTitle>
+                <p className="text-sm text-gray-600">
+                  Parks no longer in use. Visits here count toward your history, not the checklist.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ballpark</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Seasons</TableHead>
+                      <TableHead>First visit</TableHead>
+                      <TableHead className="text-right">Games</TableHead>
+                      <TableHead className="text-right">Record</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.closed.map(visits => (
+                      <TableRow key={visits.park.venue_id} className={visits.visits > 0 ? '' : 'text-gray-400'}>
+                        <TableCell className="font-medium">
+                          {visits.park.name}
+                          {visits.visits > 0 && <CheckCircle2 className="inline h-4 w-4 ml-1 text-field-green" />}
+                        </TableCell>
+                        <TableCell>{visits.park.home_team}</TableCell>
+                        <TableCell>{visits.park.opened_year}–{visits.park.closed_year}</TableCell>
+                        <TableCell>{formatVisitDate(visits.firstVisit)}</TableCell>
+                        <TableCell className="text-right">{visits.visits || '—'}</TableCell>
+                        <TableCell className="text-right">{formatRecord(visits)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {data.otherVenues.length > 0 && (
+              <Card className="bg-white shadow-sm border border-gray-200">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-gray-900">Other Venues</CardTitle>
+                  <p className="text-sm text-gray-600">Special events and neutral-site games you attended.</p>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  {data.otherVenues.map(([venue, count]) => (
+                    <Badge key={venue} variant="secondary">
+                      {venue} · {count}
+                    </Badge>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Ballparks;
@@ -1,17 +1,24 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import Layout from '@/components/Layout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Trophy, TrendingUp, MapPin, Target, BarChart3, Star } from 'lucide-react';
-import { useProfileStats } from '@/hooks/useProfileStats';
+import { Loader2, Trophy, TrendingUp, MapPin, Target, BarChart3, Star, Users, Sparkles, Flame, Car, Route } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useProfileStats, type ProfileStatsScope } from '@/hooks/useProfileStats';
 import { useAuth } from '@/contexts/AuthContext';
 import { Link } from 'react-router-dom';
 import { getTeamLogo } from '@/utils/teamLogos';
 import { Button } from '@/components/ui/button';
+import { StatsScopeSelector } from '@/components/dashboard/StatsScopeSelector';
+import HomeLocationModal from '@/components/modals/HomeLocationModal';
 
 const Dashboard = () => {
   const { user, loading: authLoading } = useAuth();
-  const { data: stats, isLoading } = useProfileStats();
+  const [scope, setScope] = useState<ProfileStatsScope>({});
+  const [isHomeModalOpen, setIsHomeModalOpen] = useState(false);
+  // All-time stats drive the header and scope options; the cards follow the selected scope
+  const { data: allTimeStats, isLoading: allTimeLoading } = useProfileStats();
+  const { data: stats, isLoading } = useProfileStats(scope);
 
   const winPercentage = useMemo(() => {
     if (!stats?.winRecord) return 0;
@@ -23,7 +30,7 @@ const Dashboard = () => {
   const circumference = 2 * Math.PI * 45;
   const strokeDasharray = `${(winPercentage / 100) * circumference} ${circumference}`;
 
-  if (authLoading || (user && isLoading)) {
+  if (authLoading || (user && allTimeLoading)) {
     return (
       <Layout>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -49,14 +56,40 @@ const Dashboard = () => {
             <p className="text-lg text-gray-600 mb-2">
               Track win/loss records, discover patterns, and explore your baseball viewing habits.
             </p>
-            {user && stats && (
+            {user && allTimeStats && (
               <p className="text-sm text-gray-500">
-                {stats.totalGames} games added to diary
+                {allTimeStats.totalGames} games added to diary
               </p>
             )}
+            {user && allTimeStats && allTimeStats.seasons.length > 0 && (
+              <Link
+                to={`/recap/${allTimeStats.seasons[0]}`}
+                className="inline-flex items-center mt-2 text-sm font-medium text-field-green hover:text-field-dark"
+              >
+                <Sparkles className="h-4 w-4 mr-1" />
+                Your {allTimeStats.seasons[0]} Year in Review
+              </Link>
+            )}
           </div>
         </div>
 
+        {/* Scope for every card below */}
+        {user && allTimeStats && (
+          <div className="mb-6 space-y-2">
+            <StatsScopeSelector
+              scope={scope}
+              onScopeChange={setScope}
+              seasons={allTimeStats.seasons}
+              rootedTeams={allTimeStats.rootedTeams}
+            />
+            {stats && stats.totalGames !== allTimeStats.totalGames && (
+              <p className="text-center text-sm text-gray-500">
+                Showing {stats.totalGames} of {allTimeStats.totalGames} games
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Show content based on authentication status */}
         {!user ? (
           /* Signed Out State */
@@ -70,7 +103,7 @@ const Dashboard = () => {
               </Button>
             </Link>
           </div>
-        ) : !stats ? (
+        ) : !allTimeStats ? (
           /* Signed In No Data State */
           <div className="text-center py-12">
             <Trophy className="h-16 w-16 text-gray-300 mx-auto mb-4" />
@@ -82,6 +115,11 @@ const Dashboard = () => {
               </Button>
             </Link>
           </div>
+        ) : isLoading || !stats ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-field-green" />
+            <span className="ml-2 text-gray-600">Loading your stats...</span>
+          </div>
         ) : (
           /* Signed In With Data - Stats Grid */
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -148,6 +186,7 @@ const Dashboard = () => {
                             {stats.last5Games.map((game, index) => (
                               <div
                                 key={index}
+                                title={`${game.teams} ${game.score} · ${game.date}`}
                                 className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
                                   game.won ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
                                 }`}
@@ -164,6 +203,59 @@ const Dashboard = () => {
               </CardContent>
             </Card>
 
+            {/* Streaks & Momentum */}
+            <Card className="bg-white shadow-sm border border-gray-200">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+                  <Flame className="h-5 w-5 text-orange-500" />
+                  <span>Streaks & Momentum</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {stats.currentStreak ? (
+                  <>
+                    <div className="text-center">
+                      <div className={`text-3xl font-bold ${stats.currentStreak.result === 'win' ? 'text-green-600' : 'text-red-600'}`}>
+                        {stats.currentStreak.result === 'win' ? 'W' : 'L'}{stats.currentStreak.count}
+                      </div>
+                      <div className="text-sm text-gray-600">Current streak</div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 pt-2 border-t border-gray-100 text-center">
+                      <div>
+                        <div className="text-lg font-bold text-green-600">{stats.longestWinStreak}</div>
+                        <div className="text-xs text-gray-600">Longest win streak</div>
+                      </div>
+                      <div>
+                        <div className="text-lg font-bold text-red-600">{stats.longestLossStreak}</div>
+                        <div className="text-xs text-gray-600">Longest losing streak</div>
+                      </div>
+                      <div>
+                        <div className="text-lg font-bold text-gray-900">
+                          {stats.last10Record.wins}-{stats.last10Record.losses}
+                        </div>
+                        <div className="text-xs text-gray-600">
+                          Last {stats.last10Record.wins + stats.last10Record.losses}
+                        </div>
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-center py-2">
+                    <p className="text-sm text-gray-600">No rooting streaks yet</p>
+                    <p className="text-xs text-gray-500">Pick a team when you log a game to track streaks</p>
+                  </div>
+                )}
+                {stats.longestDayStreak && (
+                  <div className="text-xs text-gray-600 pt-2 border-t border-gray-100">
+                    <span className="font-medium">Most days in a row:</span> {stats.longestDayStreak.days}
+                    {stats.longestDayStreak.days > 1 && (
+                      <div className="text-gray-500">{stats.longestDayStreak.start} – {stats.longestDayStreak.end}</div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Total Runs */}
             <Card className="bg-white shadow-sm border border-gray-200">
               <CardHeader className="pb-3">
@@ -244,6 +336,118 @@ const Dashboard = () => {
               </CardContent>
             </Card>
 
+            {/* Travel */}
+            <Card className="bg-white shadow-sm border border-gray-200">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+                  <Car className="h-5 w-5 text-sky-600" />
+                  <span>Travel</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {stats.travel ? (
+                  <div className="space-y-4">
+                    <div className="text-center">
+                      <div className="text-3xl font-bold text-gray-900">{stats.travel.totalMiles.toLocaleString()}</div>
+                      <div className="text-sm text-gray-600">miles from {stats.home?.label}</div>
+                      <div className="text-xs text-gray-500">{stats.travel.milesPerGame.toLocaleString()} per attended game</div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3 text-center">
+                      <div className="p-2 bg-gray-50 rounded-lg">
+                        <div className="text-lg font-bold text-gray-900">{stats.distinctCities}</div>
+                        <div className="text-xs text-gray-600">{stats.distinctCities === 1 ? 'city' : 'cities'}</div>
+                      </div>
+                      <div className="p-2 bg-gray-50 rounded-lg">
+                        <div className="text-lg font-bold text-gray-900">{stats.distinctStates}</div>
+                        <div className="text-xs text-gray-600">{stats.distinctStates === 1 ? 'state or province' : 'states & provinces'}</div>
+                      </div>
+                    </div>
+                    {stats.travel.farthestPark && (
+                      <div className="text-sm text-gray-700">
+                        Farthest park: <span className="font-medium">{stats.travel.farthestPark.name}</span>
+                        {' '}({stats.travel.farthestPark.miles.toLocaleString()} mi)
+                      </div>
+                    )}
+                    {stats.travel.milesBySeason.length > 1 && (
+                      <div className="space-y-1">
+                        {stats.travel.milesBySeason.map(([season, miles]) => (
+                          <div key={season} className="flex justify-between text-sm">
+                            <span className="text-gray-600">{season}</span>
+                            <span className="font-medium text-gray-900">{miles.toLocaleString()} mi</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <Button variant="link" size="sm" onClick={() => setIsHomeModalOpen(true)} className="px-0 text-field-green">
+                      Change home location
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="text-center py-6">
+                    <Car className="h-12 w-12 text-gray-300 mx-auto mb-2" />
+                    {stats.home ? (
+                      <p className="text-sm text-gray-600">No attended games at mapped ballparks yet</p>
+                    ) : (
+                      <>
+                        <p className="text-sm text-gray-600">
+                          {stats.distinctCities > 0 &&
+                            `${stats.distinctCities} ${stats.distinctCities === 1 ? 'city' : 'cities'}, ${stats.distinctStates} ${stats.distinctStates === 1 ? 'state' : 'states'} visited. `}
+                          Set a home location to count your miles.
+                        </p>
+                        <Button size="sm" onClick={() => setIsHomeModalOpen(true)} className="mt-3 bg-field-green hover:bg-field-dark">
+                          Set Home
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Road Trips */}
+            <Card className="bg-white shadow-sm border border-gray-200">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+                  <Route className="h-5 w-5 text-orange-500" />
+                  <span>Road Trips</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {stats.travel && stats.travel.roadTrips.length > 0 ? (
+                  <div className="space-y-3">
+                    <div className="text-sm text-gray-600 mb-3">
+                      {stats.travel.roadTrips.length} {stats.travel.roadTrips.length === 1 ? 'trip' : 'trips'} with back-to-back away games
+                    </div>
+                    {stats.travel.roadTrips.slice(0, 5).map(trip => (
+                      <div key={trip.start} className="border-b border-gray-100 pb-2 last:border-0">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm font-medium text-gray-900">
+                            {format(parseISO(trip.start), 'MMM d')}–{format(parseISO(trip.end), 'MMM d, yyyy')}
+                          </span>
+                          <Badge variant="secondary" className="text-xs">
+                            {trip.games} games
+                          </Badge>
+                        </div>
+                        <div className="text-xs text-gray-500 truncate" title={trip.parks.join(', ')}>
+                          {trip.parks.join(' → ')} · {trip.miles.toLocaleString()} mi
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-6">
+                    <Route className="h-12 w-12 text-gray-300 mx-auto mb-2" />
+                    <p className="text-sm text-gray-600">No road trips yet</p>
+                    <p className="text-xs text-gray-500">
+                      {stats.home
+                        ? 'Attend away games a few days apart to log a road trip'
+                        : 'Set a home location to find your road trips'}
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Most Supported Team */}
             <Card className="bg-white shadow-sm border border-gray-200">
               <CardHeader className="pb-3">
@@ -285,6 +489,52 @@ const Dashboard = () => {
               </CardContent>
             </Card>
 
+            {/* Companions */}
+            <Card className="bg-white shadow-sm border border-gray-200">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+                  <Users className="h-5 w-5 text-teal-500" />
+                  <span>Companions</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {stats.mostFrequentCompanion ? (
+                  <div className="space-y-3">
+                    <div className="text-center pb-2 border-b border-gray-100">
+                      <div className="text-lg font-bold text-gray-900">{stats.mostFrequentCompanion.name}</div>
+                      <div className="text-xs text-gray-600">Most frequent companion</div>
+                    </div>
+                    {stats.companionBreakdown.map((person) => (
+                      <div key={person.id} className="flex justify-between items-center">
+                        <span className="text-sm font-medium text-gray-900 truncate" title={person.name}>
+                          {person.name}
+                        </span>
+                        <div className="flex items-center space-x-2">
+                          {person.wins + person.losses > 0 && (
+                            <span className="text-xs text-gray-500">{person.wins}-{person.losses}</span>
+                          )}
+                          <Badge variant="secondary" className="text-xs">
+                            {person.games}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                    {stats.soloGames > 0 && (
+                      <div className="text-xs text-gray-500 pt-2 border-t border-gray-100">
+                        {stats.soloGames} games on your own
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-center py-6">
+                    <Users className="h-12 w-12 text-gray-300 mx-auto mb-2" />
+                    <p className="text-sm text-gray-600">No companions yet</p>
+                    <p className="text-xs text-gray-500">Add who you were with to see your game buddies</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Top Teams */}
             <Card className="bg-white shadow-sm border border-gray-200">
               <CardHeader className="pb-3">
@@ -349,7 +599,7 @@ const Dashboard = () => {
                           const percentage = stats.ratedGamesCount > 0 ? Math.round((count / stats.ratedGamesCount) * 100) : 0;
                           return (
                             <div key={rating} className="text-center">
-                              <div className="font-medium">{rating}★</div>
+                              <div className="font-medium">{rating === 5 ? '5' : rating === 1 ? '½–1½' : `${rating}–${rating}½`}★</div>
                               <div className="text-gray-900 font-semibold">{count}</div>
                               <div className="text-gray-500">({percentage}%)</div>
                             </div>
@@ -357,6 +607,19 @@ const Dashboard = () => {
                         })}
                       </div>
                     </div>
+                    {stats.subRatingAverages.length > 0 && (
+                      <div className="pt-3 mt-3 border-t border-gray-100 space-y-1.5">
+                        {stats.subRatingAverages.map(subRating => (
+                          <div key={subRating.key} className="flex justify-between items-center text-sm">
+                            <span className="text-gray-600">{subRating.label}</span>
+                            <span className="font-semibold text-gray-900">
+                              {subRating.avg.toFixed(1)}
+                              <span className="text-xs font-normal text-gray-500 ml-1">({subRating.count})</span>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </>
                 ) : (
                   <div className="text-center py-6">
@@ -370,6 +633,12 @@ const Dashboard = () => {
           </div>
         )}
       </div>
+
+      <HomeLocationModal
+        isOpen={isHomeModalOpen}
+        onClose={() => setIsHomeModalOpen(false)}
+        home={stats?.home || null}
+      />
     </Layout>
   );
 };
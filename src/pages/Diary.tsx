@@ -1,25 +1,38 @@
 import React, { useState } from 'react';
 import Layout from '@/components/Layout';
-import { Calendar, Loader2, Edit, Trash2, ExternalLink, Star } from 'lucide-react';
+import { Calendar, Loader2, Edit, Trash2, ExternalLink, Download, Upload, Archive, CalendarPlus, Share2, BookOpen, Route } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from '@/components/ui/tooltip';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
-import { useGameLogs } from '@/hooks/useGameLogs';
+import { useGameLogs, TICKET_SOURCE_LABELS, SUB_RATINGS, formatRating, type SubRatings, type TicketDetails } from '@/hooks/useGameLogs';
 import { useLoggedGames } from '@/hooks/useLoggedGames';
+import { useTrips } from '@/hooks/useTrips';
+import { useGameLogPhotos, type GameLogPhoto } from '@/hooks/useGameLogPhotos';
+import { formatCompanions } from '@/hooks/usePeople';
 import { useAuth } from '@/contexts/AuthContext';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Link } from 'react-router-dom';
 import GameLogModal from '@/components/modals/GameLogModal';
 import DeleteGameLogModal from '@/components/modals/DeleteGameLogModal';
+import ImportDiaryModal from '@/components/modals/ImportDiaryModal';
+import DiaryBackupModal from '@/components/modals/DiaryBackupModal';
+import CalendarExportModal from '@/components/modals/CalendarExportModal';
+import ShareCardModal from '@/components/modals/ShareCardModal';
 import GameFilters from '@/components/GameFilters';
+import DiaryTrash from '@/components/DiaryTrash';
 import { getTeamLogo, getTeamAbbreviation } from '@/utils/teamLogos';
 import GameTeamDisplay from '@/components/game-card/GameTeamDisplay';
 import GameScore from '@/components/game-card/GameScore';
 import GameDateTime from '@/components/game-card/GameDateTime';
+import { PhotoThumbnails } from '@/components/photos/PhotoThumbnails';
+import { PhotoLightbox } from '@/components/photos/PhotoLightbox';
+import { StarRatingDisplay } from '@/components/ratings/StarRating';
 import { MapPin } from 'lucide-react';
 import { generateBoxscoreUrl } from '@/utils/team-mappings';
+import { downloadFile } from '@/utils/csv';
+import { buildDiaryCsv, getExportFilename, type ExportableGame } from '@/utils/diaryExport';
 
 // Helper component for conditional tooltips
 const TooltipWrapper = ({ children, text, isMobile }: { children: React.ReactNode; text: string; isMobile: boolean }) => {
@@ -52,7 +65,15 @@ const Diary = () => {
   const { data: gameLogs = [], isLoading: logsLoading } = useGameLogs();
   const [editingLog, setEditingLog] = useState<any>(null);
   const [deletingLog, setDeletingLog] = useState<any>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showCalendarExport, setShowCalendarExport] = useState(false);
+  const [sharingGame, setSharingGame] = useState<ExportableGame | null>(null);
+  const [lightbox, setLightbox] = useState<{ photos: GameLogPhoto[]; index: number; title: string } | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const { data: photosByLog = {} } = useGameLogPhotos();
+  const { data: trips = [] } = useTrips();
 
   // Filter state - same as Games page plus mode
   const [filters, setFilters] = useState({
@@ -63,6 +84,8 @@ const Diary = () => {
     playoff: '',
     search: '',
     mode: '', // New filter for diary entries
+    tag: '',
+    trip: '',
   });
 
   // Fetch games with logs using the updated hook with all filters
@@ -74,6 +97,8 @@ const Diary = () => {
     season: filters.season,
     playoff: filters.playoff,
     search: filters.search,
+    tag: filters.tag,
+    trip: filters.trip,
   });
 
 
@@ -103,9 +128,18 @@ const Diary = () => {
       playoff: '',
       search: '',
       mode: '',
+      tag: '',
+      trip: '',
     });
   };
 
+  // Exports every entry matching the current filters, not just the visible page
+  const handleExportCsv = () => {
+    const games = loggedGames.filter((game): game is NonNullable<typeof game> => !!game);
+    // The byte order mark makes Excel read the file as UTF-8
+    downloadFile('\uFEFF' + buildDiaryCsv(games), getExportFilename('csv'), 'text/csv;charset=utf-8');
+  };
+
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
     // Scroll to top when page changes
@@ -117,20 +151,15 @@ const Diary = () => {
       return <span className="text-gray-400">Not rated</span>;
     }
 
-    return (
-      <div className="flex items-center gap-0.5">
-        {[1, 2, 3, 4, 5].map((star) => (
-          <Star
-            key={star}
-            className={`h-3 w-3 ${
-              star <= rating 
-                ? 'fill-yellow-400 text-yellow-400' 
-                : 'text-gray-300'
-            }`}
-          />
-        ))}
-      </div>
-    );
+    return <StarRatingDisplay rating={rating} />;
+  };
+
+  // "Game 4.5 · Atmosphere 4" for entries with a rating breakdown
+  const getSubRatingSummary = (logData: SubRatings) => {
+    return SUB_RATINGS
+      .filter(({ key }) => logData[key])
+      .map(({ key, label }) => `${label.split(' ')[0]} ${formatRating(logData[key] as number)}`)
+      .join(' · ');
   };
 
   const getRootedForDisplay = (rootedFor: string, homeTeam: string, awayTeam: string, homeScore: number, awayScore: number) => {
@@ -169,6 +198,18 @@ const Diary = () => {
     );
   };
 
+  const getTicketSummary = (logData: TicketDetails) => {
+    const parts = [
+      logData.seat_section && `Sec ${logData.seat_section}`,
+      logData.seat_row && `Row ${logData.seat_row}`,
+      logData.seat_number && `Seat ${logData.seat_number}`,
+      logData.ticket_price != null && `$${Number(logData.ticket_price).toFixed(2)}`,
+      logData.ticket_source && TICKET_SOURCE_LABELS[logData.ticket_source],
+    ].filter(Boolean);
+
+    return parts.join(' · ');
+  };
+
   const getBoxscoreUrl = (game: any) => {
     const homeTeamAbbr = getTeamAbbreviation(game.home_team, game.league, game.date);
     const gameNumber = game.doubleheader === 'S' && game.game_num ? game.game_num.toString() : '0';
@@ -234,6 +275,8 @@ const Diary = () => {
                 </Button>
               </Link>
             </div>
+          ) : showTrash ? (
+            <DiaryTrash onBack={() => setShowTrash(false)} />
           ) : (
             <>
               {/* Only show filters if there are game logs */}
@@ -247,8 +290,8 @@ const Diary = () => {
               )}
 
               {/* Games Count - only show if there are logged games */}
-              {loggedGames.length > 0 && (
-                <div className="flex justify-between items-center mb-6">
+              <div className="flex flex-wrap justify-between items-center gap-y-2 mb-6">
+                {loggedGames.length > 0 && (
                   <h2 className="text-xl font-semibold text-gray-900">
                     {loggedGames.length} Games in Your Diary
                     {totalPages > 1 && (
@@ -257,8 +300,72 @@ const Diary = () => {
                       </span>
                     )}
                   </h2>
-                </div>
-              )}
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowImport(true)}
+                  className="ml-auto text-gray-600"
+                >
+                  <Upload className="h-4 w-4 mr-1" />
+                  Import CSV
+                </Button>
+                {loggedGames.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleExportCsv}
+                    className="text-gray-600"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Export CSV
+                  </Button>
+                )}
+                {loggedGames.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowCalendarExport(true)}
+                    className="text-gray-600"
+                  >
+                    <CalendarPlus className="h-4 w-4 mr-1" />
+                    Add to Calendar
+                  </Button>
+                )}
+                {loggedGames.length > 0 && (
+                  // The filtered season, or the most recent one
+                  <Button variant="ghost" size="sm" className="text-gray-600" asChild>
+                    <Link to={`/scorebook/${filters.season || loggedGames[0]?.date?.slice(0, 4)}`}>
+                      <BookOpen className="h-4 w-4 mr-1" />
+                      Scorebook
+                    </Link>
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" className="text-gray-600" asChild>
+                  <Link to="/trips">
+                    <Route className="h-4 w-4 mr-1" />
+                    Trips
+                  </Link>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowBackup(true)}
+                  className="text-gray-600"
+                >
+                  <Archive className="h-4 w-4 mr-1" />
+                  Backup
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowTrash(true)}
+                  className="text-gray-600"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Trash
+                </Button>
+              </div>
 
               {/* Games Grid with Unified Cards or Empty State */}
               {loggedGames.length > 0 ? (
@@ -271,12 +378,23 @@ const Diary = () => {
                       const yesterday = new Date();
                       yesterday.setDate(yesterday.getDate() - 1);
                       const isBeforeToday = new Date(game.date) <= new Date(yesterday.toDateString());
+                      const photos = photosByLog[game.logData.id] || [];
+                      const ticketSummary = game.logData.mode === 'attended' ? getTicketSummary(game.logData) : '';
 
                       return (
-                        <div key={game.game_id} style={{ animationDelay: `${index * 0.1}s` }} className="h-full">
+                        <div key={game.logData.id} style={{ animationDelay: `${index * 0.1}s` }} className="h-full">
                           <Card className="transition-shadow duration-200 animate-fade-in h-full flex flex-col relative">
                             {/* Edit/Delete controls in top right */}
                             <div className="absolute top-3 right-3 flex space-x-1 z-10">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 w-8 p-0 bg-white/90 hover:bg-white shadow-sm"
+                                onClick={() => setSharingGame(game)}
+                                aria-label="Share as image"
+                              >
+                                <Share2 className="h-4 w-4 text-gray-600" />
+                              </Button>
                               <Button
                                 size="sm"
                                 variant="ghost"
@@ -376,6 +494,9 @@ const Diary = () => {
                                       <span className="capitalize">
                                         {game.logData.mode === 'attended' ? '🏟️ Attended' : '📺 Watched'}
                                       </span>
+                                      {game.logData.visit_number > 1 && (
+                                        <span className="block text-gray-400">Viewing #{game.logData.visit_number}</span>
+                                      )}
                                     </div>
                                     
                                     <div className="text-center">
@@ -383,6 +504,11 @@ const Diary = () => {
                                       <div className="flex justify-center">
                                         {renderStarRating(game.logData.rating)}
                                       </div>
+                                      {getSubRatingSummary(game.logData) && (
+                                        <span className="block text-[10px] text-gray-500 mt-0.5">
+                                          {getSubRatingSummary(game.logData)}
+                                        </span>
+                                      )}
                                     </div>
                                     
                                     <div className="text-center">
@@ -394,9 +520,9 @@ const Diary = () => {
                                     
                                     <div className="text-center">
                                       <span className="font-medium block">Company:</span>
-                                      <TooltipWrapper text={game.logData.company || ''} isMobile={isMobile}>
+                                      <TooltipWrapper text={formatCompanions(game.logData.companions)} isMobile={isMobile}>
                                         <div className="truncate px-1">
-                                          {game.logData.company || 
+                                          {formatCompanions(game.logData.companions) || 
                                             <span className="text-gray-400">Solo</span>
                                           }
                                         </div>
@@ -404,6 +530,37 @@ const Diary = () => {
                                     </div>
                                   </div>
                                   
+                                  {ticketSummary && (
+                                    <div className="pt-1.5 border-t border-gray-100 text-center">
+                                      <span className="font-medium">Ticket:</span>{' '}
+                                      <span className="text-gray-700">{ticketSummary}</span>
+                                    </div>
+                                  )}
+                                  
+                                  {game.logData.trip_id && trips.some(trip => trip.id === game.logData.trip_id) && (
+                                    <div className="pt-1.5 border-t border-gray-100 text-center">
+                                      <span className="font-medium">Trip:</span>{' '}
+                                      <Link to={`/trips/${game.logData.trip_id}`} className="text-field-green hover:underline">
+                                        {trips.find(trip => trip.id === game.logData.trip_id)?.name}
+                                      </Link>
+                                    </div>
+                                  )}
+                                  
+                                  {game.logData.tags.length > 0 && (
+                                    <div className="pt-1.5 border-t border-gray-100 flex flex-wrap justify-center gap-1">
+                                      {game.logData.tags.map(tag => (
+                                        <Badge
+                                          key={tag.id}
+                                          variant="outline"
+                                          className="text-[10px] px-1.5 py-0 cursor-pointer hover:bg-gray-100"
+                                          onClick={() => handleFilterChange('tag', tag.id)}
+                                        >
+                                          #{tag.name}
+                                        </Badge>
+                                      ))}
+                                    </div>
+                                  )}
+                                  
                                   {/* Always show Notes section */}
                                   <div className="pt-1.5 border-t border-gray-100">
                                     <span className="font-medium">Notes:</span>
@@ -414,6 +571,19 @@ const Diary = () => {
                                     </TooltipWrapper>
                                   </div>
                                   
+                                  {photos.length > 0 && (
+                                    <div className="pt-1.5 border-t border-gray-100">
+                                      <PhotoThumbnails
+                                        photos={photos}
+                                        onSelect={(photoIndex) => setLightbox({
+                                          photos,
+                                          index: photoIndex,
+                                          title: `${awayTeamAbbr} @ ${homeTeamAbbr}`,
+                                        })}
+                                      />
+                                    </div>
+                                  )}
+                                  
                                   <div className="pt-1.5 border-t border-gray-100 text-gray-400 text-center">
                                     Added: {new Date(game.logData.created_at).toLocaleDateString('en-US', {
                                       month: 'short',
@@ -507,6 +677,38 @@ const Diary = () => {
             league="MLB"
           />
         )}
+
+        {user && (
+          <ImportDiaryModal isOpen={showImport} onClose={() => setShowImport(false)} />
+        )}
+
+        {user && (
+          <DiaryBackupModal isOpen={showBackup} onClose={() => setShowBackup(false)} />
+        )}
+
+        {user && showCalendarExport && (
+          <CalendarExportModal
+            isOpen={showCalendarExport}
+            onClose={() => setShowCalendarExport(false)}
+            initialMode={filters.mode}
+            initialSeason={filters.season}
+          />
+        )}
+
+        {user && (
+          <ShareCardModal
+            isOpen={!!sharingGame}
+            onClose={() => setSharingGame(null)}
+            game={sharingGame}
+          />
+        )}
+
+        <PhotoLightbox
+          photos={lightbox?.photos || []}
+          startIndex={lightbox ? lightbox.index : null}
+          onClose={() => setLightbox(null)}
+          title={lightbox?.title}
+        />
       </Layout>
     </TooltipProvider>
   );
@@ -4,10 +4,12 @@ import Layout from '@/components/Layout';
 import GameCard from '@/components/GameCard';
 import GameFilters from '@/components/GameFilters';
 import GameLogModal from '@/components/modals/GameLogModal';
+import BulkLogModal from '@/components/modals/BulkLogModal';
 import HotGames from '@/components/HotGames';
-import { Loader2, Trophy, X, Info } from 'lucide-react';
+import { Loader2, Trophy, X, Info, ListChecks } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { useGames } from '@/hooks/useGames';
-import { useGameLogs } from '@/hooks/useGameLogs';
+import { useGameLogs, MAX_BULK_LOG_GAMES, type GameLog } from '@/hooks/useGameLogs';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate, useLocation } from 'react-router-dom';
 import {
@@ -36,6 +38,10 @@ const Games = () => {
     league: string;
     venue?: string;
   } | null>(null);
+  const [editingEntry, setEditingEntry] = useState<{ log: GameLog; game: typeof games[number] } | null>(null);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedGames, setSelectedGames] = useState<Record<string, typeof games[number]>>({});
+  const [showBulkLog, setShowBulkLog] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [showInfoBanner, setShowInfoBanner] = useState(true);
   const gamesPerPage = 24;
@@ -121,6 +127,35 @@ const Games = () => {
     setSelectedGame({ id: gameId, title: gameTitle, homeTeam, awayTeam, league, venue });
   };
 
+  // Selections are kept across pages and filter changes until logged or cleared
+  const handleToggleSelect = (gameId: string) => {
+    setSelectedGames(prev => {
+      if (prev[gameId]) {
+        const { [gameId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      const game = games.find(g => g.game_id?.toString() === gameId);
+      if (!game || Object.keys(prev).length >= MAX_BULK_LOG_GAMES) return prev;
+      return { ...prev, [gameId]: game };
+    });
+  };
+
+  const handleExitSelection = () => {
+    setSelectionMode(false);
+    setSelectedGames({});
+  };
+
+  const selectedCount = Object.keys(selectedGames).length;
+
+  // Switch from the add flow to editing an entry the user already has for this game
+  const handleEditExisting = (gameLog: GameLog) => {
+    const game = [...games, ...hotGamesData].find(g => g.game_id?.toString() === gameLog.game_id?.toString());
+    setSelectedGame(null);
+    if (game) {
+      setEditingEntry({ log: gameLog, game });
+    }
+  };
+
   // Get games from past 3 days for hot games section (excluding future games)
   const threeDaysAgo = new Date();
   threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
@@ -197,6 +232,19 @@ const Games = () => {
           games={games}
         />
 
+        {user && (
+          <div className="flex justify-end mb-4">
+            <Button
+              variant={selectionMode ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={selectionMode ? handleExitSelection : () => setSelectionMode(true)}
+            >
+              <ListChecks className="h-4 w-4 mr-2" />
+              {selectionMode ? 'Cancel Selection' : 'Select Games'}
+            </Button>
+          </div>
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="flex justify-center items-center py-12">
@@ -218,6 +266,9 @@ const Games = () => {
                         onAddToDiary={handleAddToDiary}
                         isAuthenticated={!!user}
                         isAlreadyLogged={loggedGameIds.has(game.game_id?.toString())}
+                        selectionMode={selectionMode}
+                        isSelected={!!selectedGames[game.game_id?.toString()]}
+                        onToggleSelect={handleToggleSelect}
                       />
                     </div>
                   ))}
@@ -255,6 +306,41 @@ const Games = () => {
           </>
         )}
 
+        {/* Bulk selection bar */}
+        {selectionMode && (
+          <div className="fixed bottom-20 md:bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 rounded-full border bg-white px-4 py-2 shadow-lg">
+            <span className="text-sm text-gray-700 whitespace-nowrap">
+              {selectedCount} selected
+              {selectedCount >= MAX_BULK_LOG_GAMES && <span className="text-gray-500"> (max)</span>}
+            </span>
+            {selectedCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setSelectedGames({})}>
+                Clear
+              </Button>
+            )}
+            <Button
+              size="sm"
+              className="bg-field-green hover:bg-field-dark rounded-full"
+              disabled={selectedCount === 0}
+              onClick={() => setShowBulkLog(true)}
+            >
+              Log {selectedCount > 0 ? selectedCount : ''} Game{selectedCount === 1 ? '' : 's'}
+            </Button>
+          </div>
+        )}
+
+        {showBulkLog && (
+          <BulkLogModal
+            isOpen={showBulkLog}
+            onClose={() => setShowBulkLog(false)}
+            games={Object.values(selectedGames)}
+            onSuccess={() => {
+              setShowBulkLog(false);
+              handleExitSelection();
+            }}
+          />
+        )}
+
         {/* Game Log Modal */}
         {selectedGame && (
           <GameLogModal
@@ -267,6 +353,18 @@ const Games = () => {
             awayTeam={selectedGame.awayTeam}
             league={selectedGame.league}
             venue={selectedGame.venue}
+            onEditExisting={handleEditExisting}
+          />
+        )}
+
+        {editingEntry && (
+          <GameLogModal
+            isOpen={!!editingEntry}
+            onClose={() => setEditingEntry(null)}
+            mode="edit"
+            gameLog={editingEntry.log}
+            game={editingEntry.game}
+            league={editingEntry.game.league}
           />
         )}
       </div>
@@ -0,0 +1,280 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, Loader2, Share2, Sparkles } from 'lucide-react';
+import Layout from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfileStats } from '@/hooks/useProfileStats';
+import { formatRating } from '@/hooks/useGameLogs';
+import { useToast } from '@/hooks/use-toast';
+
+// Horizontal distance a swipe has to cover before it changes slides
+const SWIPE_THRESHOLD = 50;
+
+interface RecapSlide {
+  key: string;
+  eyebrow: string;
+  headline: string;
+  caption: string;
+  detail?: string;
+}
+
+const formatRecapDate = (date: string) => {
+  try {
+    return format(parseISO(date), 'MMMM d');
+  } catch (error) {
+    return date;
+  }
+};
+
+const Recap = () => {
+  const { season = '' } = useParams();
+  const { user, loading: authLoading } = useAuth();
+  const { data: stats, isLoading } = useProfileStats({ season });
+  const { toast } = useToast();
+  const [slideIndex, setSlideIndex] = useState(0);
+  const touchStartX = useRef<number | null>(null);
+
+  const slides: RecapSlide[] = [];
+  if (stats && stats.totalGames > 0) {
+    const { wins, losses } = stats.winRecord;
+    const rootedGames = wins + losses;
+
+    slides.push({
+      key: 'total',
+      eyebrow: `Your ${season} season`,
+      headline: `${stats.totalGames}`,
+      caption: stats.totalGames === 1 ? 'game in your diary' : 'games in your diary',
+    });
+    slides.push({
+      key: 'mode',
+      eyebrow: 'In the stands or on the couch',
+      headline: `${stats.gamesAttended} / ${stats.gamesWatched}`,
+      caption: 'attended / watched',
+    });
+    if (rootedGames > 0) {
+      slides.push({
+        key: 'record',
+        eyebrow: 'When you picked a side',
+        headline: `${wins}-${losses}`,
+        caption: `${Math.round((wins / rootedGames) * 100)}% of your teams won`,
+        detail: stats.mostSupportedTeam.count > 0 ? `Mostly pulling for ${stats.mostSupportedTeam.team}` : undefined,
+      });
+    }
+    if (stats.bestRatedGame) {
+      slides.push({
+        key: 'best',
+        eyebrow: 'Game of the year',
+        headline: stats.bestRatedGame.teams,
+        caption: `${formatRating(stats.bestRatedGame.rating)} stars · ${formatRecapDate(stats.bestRatedGame.date)}`,
+        detail: stats.bestRatedGame.venue || undefined,
+      });
+    }
+    if (stats.attendedVenueBreakdown.length > 0) {
+      const [venue, count] = stats.attendedVenueBreakdown[0];
+      slides.push({
+        key: 'park',
+        eyebrow: 'Your home away from home',
+        headline: venue,
+        caption: `${count} ${count === 1 ? 'visit' : 'visits'}`,
+      });
+    }
+    if (stats.mostFrequentCompanion) {
+      slides.push({
+        key: 'companion',
+        eyebrow: 'Your go-to game buddy',
+        headline: stats.mostFrequentCompanion.name,
+        caption: `${stats.mostFrequentCompanion.games} games together`,
+        detail: stats.mostFrequentCompanion.wins + stats.mostFrequentCompanion.losses > 0
+          ? `${stats.mostFrequentCompanion.wins}-${stats.mostFrequentCompanion.losses} when rooting`
+          : undefined,
+      });
+    }
+    if (stats.longestWinStreak > 1) {
+      slides.push({
+        key: 'streak',
+        eyebrow: 'Hot streak',
+        headline: `${stats.longestWinStreak}`,
+        caption: 'wins in a row for your team',
+      });
+    }
+    if (stats.highestScoringGame) {
+      slides.push({
+        key: 'slugfest',
+        eyebrow: 'Biggest slugfest',
+        headline: `${stats.highestScoringGame.runs} runs`,
+        caption: `${stats.highestScoringGame.teams} · ${formatRecapDate(stats.highestScoringGame.date)}`,
+        detail: stats.highestScoringGame.venue || undefined,
+      });
+    }
+    slides.push({
+      key: 'outro',
+      eyebrow: `That was ${season}`,
+      headline: 'See you next season',
+      caption: 'Thanks for keeping score.',
+    });
+  }
+
+  const lastIndex = slides.length - 1;
+  const goTo = (index: number) => setSlideIndex(Math.max(0, Math.min(index, lastIndex)));
+
+  // Start from the first slide whenever the season changes
+  useEffect(() => {
+    setSlideIndex(0);
+  }, [season]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setSlideIndex(index => Math.min(index + 1, lastIndex));
+      if (e.key === 'ArrowLeft') setSlideIndex(index => Math.max(index - 1, 0));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [lastIndex]);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartX.current = e.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const deltaX = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (Math.abs(deltaX) < SWIPE_THRESHOLD) return;
+    goTo(deltaX < 0 ? slideIndex + 1 : slideIndex - 1);
+  };
+
+  // Taps on the left third go back, anywhere else goes forward, like stories
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    goTo(e.clientX - left < width / 3 ? slideIndex - 1 : slideIndex + 1);
+  };
+
+  const handleShare = async () => {
+    const text = slides
+      .filter(slide => slide.key !== 'outro')
+      .map(slide => `${slide.eyebrow}: ${slide.headline} ${slide.caption}`)
+      .join('\n');
+    const shareData = { title: `My ${season} Year in Review`, text, url: window.location.href };
+
+    try {
+      if (typeof navigator.share === 'function') {
+        await navigator.share(shareData);
+      } else {
+        await navigator.clipboard.writeText(`${shareData.title}\n${text}\n${shareData.url}`);
+        toast({ title: 'Copied', description: 'Your recap is on the clipboard.' });
+      }
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError, which isn't a failure
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to share recap.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const slide = slides[Math.min(slideIndex, lastIndex)];
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center mb-6">
+          <div className="flex justify-center items-center space-x-3 mb-2">
+            <Sparkles className="h-8 w-8 text-field-green" />
+            <h1 className="text-3xl font-bold text-gray-900">{season} Year in Review</h1>
+          </div>
+          {stats && stats.seasons.length > 1 && (
+            <div className="flex flex-wrap justify-center gap-2 text-sm">
+              {stats.seasons.map(year => (
+                <Link
+                  key={year}
+                  to={`/recap/${year}`}
+                  className={year === season ? 'font-semibold text-field-green' : 'text-gray-500 hover:text-field-green'}
+                >
+                  {year}
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {authLoading || (user && isLoading) ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-field-green" />
+            <span className="ml-2 text-gray-600">Loading your recap...</span>
+          </div>
+        ) : !user ? (
+          <div className="text-center py-12">
+            <Sparkles className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Sign in to see your year in review</h3>
+            <Link to="/auth">
+              <Button className="bg-field-green hover:bg-field-dark">Sign In</Button>
+            </Link>
+          </div>
+        ) : !slide ? (
+          <div className="text-center py-12">
+            <Sparkles className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No games logged in {season}</h3>
+            <p className="text-gray-600 mb-6">Add games from that season to get a recap.</p>
+            <Link to="/">
+              <Button className="bg-field-green hover:bg-field-dark">Browse Games</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="max-w-sm mx-auto">
+            <div
+              className="sports-gradient relative aspect-[9/16] rounded-2xl shadow-lg text-white overflow-hidden cursor-pointer select-none"
+              onClick={handleClick}
+              onTouchStart={handleTouchStart}
+              onTouchEnd={handleTouchEnd}
+              role="region"
+              aria-roledescription="carousel"
+              aria-label={`${season} recap, slide ${slideIndex + 1} of ${slides.length}`}
+            >
+              {/* Progress segments */}
+              <div className="absolute top-3 inset-x-3 flex gap-1">
+                {slides.map((item, index) => (
+                  <div
+                    key={item.key}
+                    className={`h-1 flex-1 rounded-full ${index <= slideIndex ? 'bg-white' : 'bg-white/30'}`}
+                  />
+                ))}
+              </div>
+
+              <div key={slide.key} className="absolute inset-0 flex flex-col justify-center items-center text-center px-8 animate-fade-in">
+                <p className="text-sm uppercase tracking-widest text-white/70 mb-4">{slide.eyebrow}</p>
+                <p className={`font-bold mb-3 break-words ${slide.headline.length > 10 ? 'text-3xl' : 'text-6xl'}`}>
+                  {slide.headline}
+                </p>
+                <p className="text-lg text-white/90">{slide.caption}</p>
+                {slide.detail && <p className="text-sm text-white/70 mt-2">{slide.detail}</p>}
+              </div>
+
+              <p className="absolute bottom-4 inset-x-0 text-center text-xs text-white/60">Gameday Diary</p>
+            </div>
+
+            <div className="flex justify-between items-center mt-4">
+              <Button variant="ghost" size="sm" onClick={() => goTo(slideIndex - 1)} disabled={slideIndex === 0}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleShare}>
+                <Share2 className="h-4 w-4 mr-1" />
+                Share
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => goTo(slideIndex + 1)} disabled={slideIndex === lastIndex}>
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Recap;
@@ -0,0 +1,329 @@
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, BookOpen, Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StarRatingDisplay } from '@/components/ratings/StarRating';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLoggedGames } from '@/hooks/useLoggedGames';
+import { useProfileStats } from '@/hooks/useProfileStats';
+import { SUB_RATINGS, formatRating } from '@/hooks/useGameLogs';
+import { formatCompanions } from '@/hooks/usePeople';
+import { getTeamLogo, getTeamAbbreviation, formatTeamName } from '@/utils/teamLogos';
+import { getGameScore } from '@/utils/gameScore';
+
+const formatBookDate = (date: string, pattern: string) => {
+  try {
+    return format(parseISO(date), pattern);
+  } catch (error) {
+    return date;
+  }
+};
+
+const Scorebook = () => {
+  const { season = '' } = useParams();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+
+  const { data: allGames = [] } = useLoggedGames({ mode: '' });
+  const { data: seasonGames = [], isLoading: gamesLoading } = useLoggedGames({ mode: '', season });
+  const { data: stats, isLoading: statsLoading } = useProfileStats({ season });
+
+  const seasons = [...new Set(allGames.map(game => game?.date?.slice(0, 4)).filter((year): year is string => !!year))]
+    .sort((a, b) => b.localeCompare(a));
+
+  // A book reads front to back, so oldest game first
+  const games = seasonGames
+    .filter((game): game is NonNullable<typeof game> => !!game)
+    .slice()
+    .reverse();
+
+  const isLoading = authLoading || (user && (gamesLoading || statsLoading));
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-field-green" />
+        <span className="ml-2 text-gray-600">Loading your scorebook...</span>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col justify-center items-center text-center px-4">
+        <BookOpen className="h-16 w-16 text-gray-300 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Sign in to see your scorebook</h3>
+        <Link to="/auth">
+          <Button className="bg-field-green hover:bg-field-dark">Sign In</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const rootedGames = (stats?.winRecord.wins || 0) + (stats?.winRecord.losses || 0);
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      {/* Toolbar - screen only */}
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10 print:hidden">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <Link to="/diary" className="flex items-center text-sm text-gray-600 hover:text-field-green">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Diary
+          </Link>
+          <div className="flex items-center space-x-2">
+            <Select value={season} onValueChange={value => navigate(`/scorebook/${value}`)}>
+              <SelectTrigger className="w-32">
+                <SelectValue placeholder="Season" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map(year => (
+                  <SelectItem key={year} value={year}>{year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="bg-field-green hover:bg-field-dark"
+              onClick={() => window.print()}
+              disabled={games.length === 0}
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Print / Save PDF
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {games.length === 0 || !stats ? (
+        <div className="text-center py-16 px-4">
+          <BookOpen className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No games logged in {season}</h3>
+          <p className="text-gray-600">Pick another season or add games to your diary.</p>
+        </div>
+      ) : (
+        <div className="max-w-4xl mx-auto py-8 space-y-8 print:p-0 print:space-y-0 print:max-w-none">
+          {/* Cover */}
+          <section className="bg-white shadow-sm p-12 min-h-[10in] flex flex-col justify-center text-center break-after-page print:shadow-none print:min-h-[9.5in]">
+            <BookOpen className="h-16 w-16 text-field-green mx-auto mb-6" />
+            <p className="text-sm uppercase tracking-widest text-gray-500 mb-2">Gameday Diary</p>
+            <h1 className="text-5xl font-bold text-gray-900 mb-2">{season} Scorebook</h1>
+            <p className="text-gray-600 mb-12">
+              {formatBookDate(games[0].date || '', 'MMMM d')} – {formatBookDate(games[games.length - 1].date || '', 'MMMM d, yyyy')}
+            </p>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-6 max-w-2xl mx-auto">
+              <div>
+                <div className="text-4xl font-bold text-field-green">{stats.totalGames}</div>
+                <div className="text-sm text-gray-600">Games</div>
+              </div>
+              <div>
+                <div className="text-4xl font-bold text-field-green">{stats.gamesAttended}</div>
+                <div className="text-sm text-gray-600">Attended</div>
+              </div>
+              <div>
+                <div className="text-4xl font-bold text-field-green">{stats.gamesWatched}</div>
+                <div className="text-sm text-gray-600">Watched</div>
+              </div>
+              <div>
+                <div className="text-4xl font-bold text-field-green">
+                  {rootedGames > 0 ? `${stats.winRecord.wins}-${stats.winRecord.losses}` : '–'}
+                </div>
+                <div className="text-sm text-gray-600">Rooting record</div>
+              </div>
+            </div>
+          </section>
+
+          {/* One page per game */}
+          {games.map((game, index) => {
+            const date = game.date || '';
+            const homeAbbr = getTeamAbbreviation(game.home_team || '', 'MLB', date);
+            const awayAbbr = getTeamAbbreviation(game.away_team || '', 'MLB', date);
+            const score = getGameScore({
+              league: 'MLB',
+              runsScored: game.runs_scored ?? undefined,
+              runsAllowed: game.runs_allowed ?? undefined,
+            });
+            const rootedFor = game.logData.rooted_for && game.logData.rooted_for !== 'none'
+              ? getTeamAbbreviation(game.logData.rooted_for, 'MLB', date)
+              : '';
+            const subRatings = SUB_RATINGS.filter(({ key }) => game.logData[key]);
+            const companions = formatCompanions(game.logData.companions);
+
+            return (
+              <section
+                key={game.logData.id}
+                className="bg-white shadow-sm p-10 min-h-[10in] flex flex-col break-after-page print:shadow-none print:min-h-[9.5in]"
+              >
+                <div className="flex justify-between items-baseline border-b-2 border-field-green pb-2 mb-8">
+                  <span className="text-sm font-semibold uppercase tracking-wide text-field-green">
+                    Game {index + 1}
+                  </span>
+                  <span className="text-sm text-gray-600">{formatBookDate(date, 'EEEE, MMMM d, yyyy')}</span>
+                </div>
+
+                <div className="flex items-center justify-center gap-10 mb-6">
+                  <div className="flex flex-col items-center w-40">
+                    <img src={getTeamLogo(awayAbbr, 'MLB', date)} alt={awayAbbr} className="h-24 w-24 object-contain mb-2" />
+                    <span className="text-center font-semibold text-gray-900">{formatTeamName(awayAbbr, 'MLB', date)}</span>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-5xl font-bold text-field-green">{score || '–'}</div>
+                    <div className="text-xs text-gray-500 mt-1">Away – Home</div>
+                  </div>
+                  <div className="flex flex-col items-center w-40">
+                    <img src={getTeamLogo(homeAbbr, 'MLB', date)} alt={homeAbbr} className="h-24 w-24 object-contain mb-2" />
+                    <span className="text-center font-semibold text-gray-900">{formatTeamName(homeAbbr, 'MLB', date)}</span>
+                  </div>
+                </div>
+
+                {game.venue && <p className="text-center text-gray-600 mb-8">{game.venue}</p>}
+
+                <dl className="grid grid-cols-2 gap-x-8 gap-y-3 text-sm border-y border-gray-200 py-4 mb-6">
+                  <div>
+                    <dt className="text-gray-500">Winning pitcher</dt>
+                    <dd className="font-medium text-gray-900">{game.winning_pitcher || '—'}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Losing pitcher</dt>
+                    <dd className="font-medium text-gray-900">{game.losing_pitcher || '—'}</dd>
+                  </div>
+                  {game.save_pitcher && (
+                    <div>
+                      <dt className="text-gray-500">Save</dt>
+                      <dd className="font-medium text-gray-900">{game.save_pitcher}</dd>
+                    </div>
+                  )}
+                  <div>
+                    <dt className="text-gray-500">Mode</dt>
+                    <dd className="font-medium text-gray-900">{game.logData.mode === 'attended' ? 'Attended' : 'Watched'}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Rooted for</dt>
+                    <dd className="font-medium text-gray-900">{rootedFor || 'No team'}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Company</dt>
+                    <dd className="font-medium text-gray-900">{companions || 'Solo'}</dd>
+                  </div>
+                </dl>
+
+                <div className="mb-6">
+                  <div className="text-sm text-gray-500 mb-1">Rating</div>
+                  {game.logData.rating ? (
+                    <div className="flex items-center space-x-2">
+                      <StarRatingDisplay rating={game.logData.rating} size="md" />
+                      <span className="text-sm text-gray-700">{formatRating(game.logData.rating)} / 5</span>
+                    </div>
+                  ) : (
+                    <span className="text-sm text-gray-400">Not rated</span>
+                  )}
+                  {subRatings.length > 0 && (
+                    <div className="text-xs text-gray-600 mt-1">
+                      {subRatings.map(({ key, label }) => `${label} ${formatRating(game.logData[key] as number)}`).join(' · ')}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex-1">
+                  <div className="text-sm text-gray-500 mb-1">Notes</div>
+                  {game.logData.notes ? (
+                    <p className="text-gray-800 whitespace-pre-wrap leading-relaxed">{game.logData.notes}</p>
+                  ) : (
+                    <p className="text-gray-400">No notes</p>
+                  )}
+                </div>
+
+                {game.logData.tags.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-6">
+                    {game.logData.tags.map(tag => `#${tag.name}`).join('  ')}
+                  </p>
+                )}
+              </section>
+            );
+          })}
+
+          {/* Closing stats */}
+          <section className="bg-white shadow-sm p-10 min-h-[10in] print:shadow-none print:min-h-0">
+            <h2 className="text-3xl font-bold text-gray-900 border-b-2 border-field-green pb-2 mb-8">
+              {season} by the Numbers
+            </h2>
+
+            <div className="grid grid-cols-2 gap-8 text-sm">
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Ratings</h3>
+                {stats.ratedGamesCount > 0 ? (
+                  <ul className="space-y-1 text-gray-700">
+                    <li>Average rating: {stats.avgRating.toFixed(1)} ({stats.ratedGamesCount} rated)</li>
+                    {stats.subRatingAverages.map(subRating => (
+                      <li key={subRating.key}>{subRating.label}: {subRating.avg.toFixed(1)}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-gray-400">No rated games</p>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Runs</h3>
+                <ul className="space-y-1 text-gray-700">
+                  <li>Total runs: {stats.totalRuns} ({stats.avgRunsPerGame} per game)</li>
+                  {stats.highestScoringGame && (
+                    <li>Highest: {stats.highestScoringGame.runs} runs, {stats.highestScoringGame.teams} on {stats.highestScoringGame.date}</li>
+                  )}
+                  {stats.lowestScoringGame && (
+                    <li>Lowest: {stats.lowestScoringGame.runs} runs, {stats.lowestScoringGame.teams} on {stats.lowestScoringGame.date}</li>
+                  )}
+                </ul>
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Ballparks</h3>
+                {stats.attendedVenueBreakdown.length > 0 ? (
+                  <ul className="space-y-1 text-gray-700">
+                    {stats.attendedVenueBreakdown.map(([venue, count]) => (
+                      <li key={venue}>{venue}: {count}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-gray-400">No games attended</p>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Teams</h3>
+                <ul className="space-y-1 text-gray-700">
+                  {stats.mostSupportedTeam.count > 0 && (
+                    <li>Most supported: {stats.mostSupportedTeam.team} ({stats.mostSupportedTeam.count} games)</li>
+                  )}
+                  {stats.teamBreakdown.map(([team, count]) => (
+                    <li key={team}>{team}: {count} games</li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Company</h3>
+                {stats.companionBreakdown.length > 0 ? (
+                  <ul className="space-y-1 text-gray-700">
+                    {stats.companionBreakdown.map(person => (
+                      <li key={person.id}>
+                        {person.name}: {person.games} games
+                        {person.wins + person.losses > 0 && ` (${person.wins}-${person.losses})`}
+                      </li>
+                    ))}
+                    {stats.soloGames > 0 && <li>On your own: {stats.soloGames} games</li>}
+                  </ul>
+                ) : (
+                  <p className="text-gray-400">Every game on your own</p>
+                )}
+              </div>
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Scorebook;
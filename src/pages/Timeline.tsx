@@ -1,16 +1,18 @@
 import React, { useState } from 'react';
 import Layout from '@/components/Layout';
-import { Calendar, Loader2, Edit, Trash2, ExternalLink, Star } from 'lucide-react';
+import { Calendar, Loader2, Edit, Trash2, ExternalLink } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useGameLogs } from '@/hooks/useGameLogs';
 import { useLoggedGames } from '@/hooks/useLoggedGames';
+import { formatCompanions } from '@/hooks/usePeople';
 import { useAuth } from '@/contexts/AuthContext';
 import { Link } from 'react-router-dom';
 import EditGameLogModal from '@/components/EditGameLogModal';
 import DeleteGameLogModal from '@/components/DeleteGameLogModal';
 import GameFilters from '@/components/GameFilters';
+import { StarRatingDisplay } from '@/components/ratings/StarRating';
 import { getTeamLogo, getTeamAbbreviation } from '@/utils/teamLogos';
 import { useMLBTeamCodes } from '@/hooks/useMLBTeamCodes';
 import GameTeamDisplay from '@/components/game-card/GameTeamDisplay';
@@ -73,20 +75,7 @@ const Timeline = () => {
       return <span className="text-gray-400">Not rated</span>;
     }
 
-    return (
-      <div className="flex items-center gap-0.5">
-        {[1, 2, 3, 4, 5].map((star) => (
-          <Star
-            key={star}
-            className={`h-3 w-3 ${
-              star <= rating 
-                ? 'fill-yellow-400 text-yellow-400' 
-                : 'text-gray-300'
-            }`}
-          />
-        ))}
-      </div>
-    );
+    return <StarRatingDisplay rating={rating} />;
   };
 
   const getRootedForDisplay = (rootedFor: string, homeTeam: string, awayTeam: string, homeScore: number, awayScore: number) => {
@@ -328,8 +317,8 @@ const Timeline = () => {
                             
                             <div className="text-center">
                               <span className="font-medium block">Company:</span>
-                              <div className="truncate px-1" title={game.logData.company || 'Solo'}>
-                                {game.logData.company || 
+                              <div className="truncate px-1" title={formatCompanions(game.logData.companions) || 'Solo'}>
+                                {formatCompanions(game.logData.companions) || 
                                   <span className="text-gray-400">Solo</span>
                                 }
                               </div>
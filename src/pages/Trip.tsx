@@ -0,0 +1,340 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { ArrowLeft, Edit, Loader2, Plus, Route, Sparkles, Trash2, X } from 'lucide-react';
+import Layout from '@/components/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import TripModal from '@/components/modals/TripModal';
+import { StarRatingDisplay } from '@/components/ratings/StarRating';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useLoggedGames } from '@/hooks/useLoggedGames';
+import { getRootedResult } from '@/hooks/useProfileStats';
+import { useTrip, useDeleteTrip, useSetTripEntries, isWithinTrip, formatTripDates } from '@/hooks/useTrips';
+import { getGameScore } from '@/utils/gameScore';
+import { getTeamAbbreviation, getTeamLogo } from '@/utils/teamLogos';
+
+const formatGameDate = (date: string) => {
+  try {
+    return format(parseISO(date), 'EEE, MMM d');
+  } catch (error) {
+    return date;
+  }
+};
+
+const Trip = () => {
+  const { tripId } = useParams();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const { data: trip, isLoading: tripLoading } = useTrip(tripId);
+  const { data: loggedGames = [], isLoading: gamesLoading } = useLoggedGames({ mode: '' });
+  const setTripEntries = useSetTripEntries();
+  const deleteTrip = useDeleteTrip();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const games = loggedGames.filter((game): game is NonNullable<typeof game> => !!game);
+  // Itinerary reads in the order the games were played
+  const itinerary = games
+    .filter(game => game.logData.trip_id === tripId)
+    .sort((a, b) => (a.date || '').localeCompare(b.date || '') || (a.game_datetime || '').localeCompare(b.game_datetime || ''));
+  // Entries from the trip's dates that aren't on any trip yet
+  const suggestions = trip
+    ? games.filter(game => !game.logData.trip_id && isWithinTrip(trip, game.date))
+    : [];
+  // Everything else can be added by hand, closest to the trip's dates first
+  const otherGames = trip
+    ? games
+      .filter(game => game.logData.trip_id !== tripId && !suggestions.includes(game) && game.date)
+      .sort((a, b) =>
+        Math.abs(differenceInCalendarDays(parseISO(a.date || ''), parseISO(trip.start_date))) -
+        Math.abs(differenceInCalendarDays(parseISO(b.date || ''), parseISO(trip.start_date)))
+      )
+    : [];
+
+  const results = itinerary.map(game => getRootedResult(game.logData.rooted_for, game));
+  const wins = results.filter(result => result === 'win').length;
+  const losses = results.filter(result => result === 'loss').length;
+  const parks = [...new Set(itinerary.map(game => game.venue).filter(Boolean))];
+
+  const handleSetEntries = async (gameLogIds: string[], attach: boolean) => {
+    if (!trip) return;
+    try {
+      await setTripEntries.mutateAsync({ tripId: attach ? trip.id : null, gameLogIds });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update trip.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!trip) return;
+    try {
+      await deleteTrip.mutateAsync(trip.id);
+      toast({
+        title: 'Success',
+        description: 'Trip deleted. Its games are still in your diary.',
+      });
+      navigate('/trips');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete trip.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const describeGame = (game: (typeof games)[number]) =>
+    `${game.date} · ${getTeamAbbreviation(game.away_team || '', 'MLB', game.date || '')} @ ${getTeamAbbreviation(game.home_team || '', 'MLB', game.date || '')}`;
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link to="/trips" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All trips
+        </Link>
+
+        {authLoading || (user && (tripLoading || gamesLoading)) ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-field-green" />
+            <span className="ml-2 text-gray-600">Loading trip...</span>
+          </div>
+        ) : !user || !trip ? (
+          <div className="text-center py-12">
+            <Route className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {user ? 'Trip not found' : 'Sign in to see your trips'}
+            </h3>
+            <Link to={user ? '/trips' : '/auth'}>
+              <Button className="bg-field-green hover:bg-field-dark">{user ? 'Back to Trips' : 'Sign In'}</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{trip.name}</h1>
+                <p className="text-gray-600">{formatTripDates(trip)}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                  <Edit className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setIsDeleting(true)} className="text-red-600 hover:text-red-700">
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-4 bg-white rounded-lg border border-gray-200">
+                <div className="text-2xl font-bold text-gray-900">{itinerary.length}</div>
+                <div className="text-sm text-gray-600">{itinerary.length === 1 ? 'game' : 'games'}</div>
+              </div>
+              <div className="p-4 bg-white rounded-lg border border-gray-200">
+                <div className="text-2xl font-bold text-gray-900">{wins + losses > 0 ? `${wins}-${losses}` : '—'}</div>
+                <div className="text-sm text-gray-600">combined record</div>
+              </div>
+              <div className="p-4 bg-white rounded-lg border border-gray-200">
+                <div className="text-2xl font-bold text-gray-900">{parks.length}</div>
+                <div className="text-sm text-gray-600">{parks.length === 1 ? 'ballpark' : 'ballparks'}</div>
+              </div>
+            </div>
+
+            {/* Trip notes */}
+            {trip.notes && (
+              <Card className="bg-white shadow-sm border border-gray-200">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg font-semibold text-gray-900">Trip Notes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{trip.notes}</p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Itinerary */}
+            <Card className="bg-white shadow-sm border border-gray-200">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-semibold text-gray-900">Itinerary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {itinerary.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4">No games on this trip yet.</p>
+                ) : (
+                  <ol className="divide-y divide-gray-100">
+                    {itinerary.map((game, index) => {
+                      const date = game.date || '';
+                      const score = getGameScore({
+                        league: 'MLB',
+                        runsScored: game.runs_scored ?? undefined,
+                        runsAllowed: game.runs_allowed ?? undefined,
+                      });
+                      const result = results[index];
+                      return (
+                        <li key={game.logData.id} className="py-3 flex items-start gap-3">
+                          <div className="w-16 flex-shrink-0 text-center">
+                            <div className="text-xs uppercase text-gray-500">
+                              Day {differenceInCalendarDays(parseISO(date), parseISO(trip.start_date)) + 1}
+                            </div>
+                            <div className="text-sm font-medium text-gray-900">{formatGameDate(date)}</div>
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <img src={getTeamLogo(game.away_team || '', 'MLB', date)} alt="" className="h-6 w-6 object-contain" />
+                              <span className="font-semibold text-gray-900">
+                                {getTeamAbbreviation(game.away_team || '', 'MLB', date)} @ {getTeamAbbreviation(game.home_team || '', 'MLB', date)}
+                              </span>
+                              <img src={getTeamLogo(game.home_team || '', 'MLB', date)} alt="" className="h-6 w-6 object-contain" />
+                              {score && <span className="text-gray-700">{score}</span>}
+                              {result && (
+                                <span className={`text-xs font-bold ${result === 'win' ? 'text-field-green' : 'text-red-600'}`}>
+                                  {result === 'win' ? 'W' : 'L'}
+                                </span>
+                              )}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {game.venue} · {game.logData.mode === 'attended' ? 'Attended' : 'Watched'}
+                            </div>
+                            {game.logData.rating ? (
+                              <div className="mt-1">
+                                <StarRatingDisplay rating={game.logData.rating} />
+                              </div>
+                            ) : null}
+                            {game.logData.notes && (
+                              <p className="mt-1 text-sm text-gray-700 line-clamp-2">{game.logData.notes}</p>
+                            )}
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSetEntries([game.logData.id], false)}
+                            disabled={setTripEntries.isPending}
+                            aria-label="Remove from trip"
+                            className="text-gray-400 hover:text-gray-700"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Suggestions from the trip's dates */}
+            {suggestions.length > 0 && (
+              <Card className="bg-white shadow-sm border border-field-green">
+                <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="text-lg font-semibold text-gray-900 flex items-center">
+                    <Sparkles className="h-5 w-5 mr-2 text-field-green" />
+                    Suggested Games
+                  </CardTitle>
+                  <Button
+                    size="sm"
+                    onClick={() => handleSetEntries(suggestions.map(game => game.logData.id), true)}
+                    disabled={setTripEntries.isPending}
+                    className="bg-field-green hover:bg-field-dark"
+                  >
+                    Add All
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-gray-600 mb-2">Diary entries from these dates that aren't on a trip.</p>
+                  <ul className="divide-y divide-gray-100">
+                    {suggestions.map(game => (
+                      <li key={game.logData.id} className="py-2 flex items-center justify-between text-sm">
+                        <span className="text-gray-900">{describeGame(game)}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleSetEntries([game.logData.id], true)}
+                          disabled={setTripEntries.isPending}
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Manual add */}
+            {otherGames.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">Add another entry:</span>
+                <Select value="" onValueChange={value => handleSetEntries([value], true)}>
+                  <SelectTrigger className="w-72">
+                    <SelectValue placeholder="Choose a diary entry" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherGames.map(game => (
+                      <SelectItem key={game.logData.id} value={game.logData.id}>
+                        {describeGame(game)}
+                        {game.logData.trip_id ? ' (on another trip)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <TripModal isOpen={isEditing} onClose={() => setIsEditing(false)} trip={trip || null} />
+
+      <AlertDialog open={isDeleting} onOpenChange={setIsDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Trip</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{trip?.name}" and its notes? The games stay in your diary.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteTrip.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the delete finishes
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleteTrip.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteTrip.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default Trip;
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Loader2, Plus, Route } from 'lucide-react';
+import Layout from '@/components/Layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import TripModal from '@/components/modals/TripModal';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGameLogs } from '@/hooks/useGameLogs';
+import { useTrips, formatTripDates } from '@/hooks/useTrips';
+
+const Trips = () => {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { data: trips = [], isLoading } = useTrips();
+  const { data: gameLogs = [] } = useGameLogs();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const entryCounts = gameLogs.reduce<Record<string, number>>((counts, log) => {
+    if (log.trip_id) counts[log.trip_id] = (counts[log.trip_id] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="flex justify-center items-center space-x-3 mb-4">
+            <Route className="h-10 w-10 text-field-green" />
+            <h1 className="text-4xl font-bold text-gray-900">Trips</h1>
+          </div>
+          <p className="text-lg text-gray-600">
+            Group the games from a road trip and keep notes for the whole journey.
+          </p>
+        </div>
+
+        {authLoading || (user && isLoading) ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-field-green" />
+            <span className="ml-2 text-gray-600">Loading your trips...</span>
+          </div>
+        ) : !user ? (
+          <div className="text-center py-12">
+            <Route className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Sign in to plan your trips</h3>
+            <Link to="/auth">
+              <Button className="bg-field-green hover:bg-field-dark">Sign In</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button onClick={() => setIsCreating(true)} className="bg-field-green hover:bg-field-dark">
+                <Plus className="h-4 w-4 mr-1" />
+                New Trip
+              </Button>
+            </div>
+
+            {trips.length === 0 ? (
+              <div className="text-center py-12">
+                <Route className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No trips yet</h3>
+                <p className="text-gray-600">Create a trip and we'll suggest the diary entries from those dates.</p>
+              </div>
+            ) : (
+              trips.map(trip => (
+                <Link key={trip.id} to={`/trips/${trip.id}`} className="block">
+                  <Card className="bg-white shadow-sm border border-gray-200 hover:border-field-green transition-colors">
+                    <CardContent className="p-4 flex items-center justify-between">
+                      <div className="min-w-0">
+                        <div className="font-semibold text-gray-900 truncate">{trip.name}</div>
+                        <div className="text-sm text-gray-500">{formatTripDates(trip)}</div>
+                      </div>
+                      <Badge variant="secondary">
+                        {entryCounts[trip.id] || 0} {entryCounts[trip.id] === 1 ? 'game' : 'games'}
+                      </Badge>
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      <TripModal
+        isOpen={isCreating}
+        onClose={() => setIsCreating(false)}
+        trip={null}
+        onSaved={tripId => navigate(`/trips/${tripId}`)}
+      />
+    </Layout>
+  );
+};
+
+export default Trips;
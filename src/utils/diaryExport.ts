@@ -0,0 +1,193 @@
+import { toCsv } from './csv';
+import { getTeamAbbreviation } from './teamLogos';
+import { TICKET_SOURCE_LABELS, formatRating, type TicketSource } from '@/hooks/useGameLogs';
+import type { Person } from '@/hooks/usePeople';
+import type { Tag } from '@/hooks/useTags';
+
+// The fields of a `useLoggedGames` row that end up in exports
+export interface ExportableGame {
+  game_id: string;
+  date: string | null;
+  game_datetime?: string | null;
+  home_team: string | null;
+  away_team: string | null;
+  runs_scored: number | null;
+  runs_allowed: number | null;
+  venue: string | null;
+  league: 'MLB';
+  logData: {
+    id: string;
+    mode: 'attended' | 'watched';
+    rating: number | null;
+    game_quality_rating?: number | null;
+    atmosphere_rating?: number | null;
+    ballpark_rating?: number | null;
+    rooted_for: string | null;
+    companions: Person[];
+    tags: Tag[];
+    notes: string | null;
+    seat_section?: string | null;
+    seat_row?: string | null;
+    seat_number?: string | null;
+    ticket_price?: number | null;
+    ticket_source?: TicketSource | null;
+  };
+}
+
+export const DIARY_CSV_HEADERS = [
+  'Date',
+  'Away Team',
+  'Home Team',
+  'Away Score',
+  'Home Score',
+  'Venue',
+  'Mode',
+  'Rating',
+  'Game Quality',
+  'Atmosphere',
+  'Ballpark',
+  'Rooted For',
+  'Company',
+  'Tags',
+  'Section',
+  'Row',
+  'Seat',
+  'Ticket Price',
+  'Ticket Source',
+  'Notes',
+  'Game ID',
+];
+
+export const buildDiaryCsv = (games: ExportableGame[]): string => {
+  const rows = games.map(game => {
+    const { logData } = game;
+    const date = game.date || '';
+    return [
+      date,
+      getTeamAbbreviation(game.away_team || '', game.league, date),
+      getTeamAbbreviation(game.home_team || '', game.league, date),
+      game.runs_allowed,
+      game.runs_scored,
+      game.venue,
+      logData.mode === 'attended' ? 'Attended' : 'Watched',
+      logData.rating,
+      logData.game_quality_rating,
+      logData.atmosphere_rating,
+      logData.ballpark_rating,
+      logData.rooted_for && logData.rooted_for !== 'none'
+        ? getTeamAbbreviation(logData.rooted_for, game.league, date)
+        : '',
+      logData.companions.map(person => person.name).join('; '),
+      logData.tags.map(tag => tag.name).join('; '),
+      logData.seat_section,
+      logData.seat_row,
+      logData.seat_number,
+      logData.ticket_price != null ? logData.ticket_price.toFixed(2) : '',
+      logData.ticket_source ? TICKET_SOURCE_LABELS[logData.ticket_source] : '',
+      logData.notes,
+      game.game_id,
+    ];
+  });
+
+  return toCsv(DIARY_CSV_HEADERS, rows);
+};
+
+export const getExportFilename = (extension: string) => {
+  return `gameday-diary-${new Date().toISOString().split('T')[0]}.${extension}`;
+};
+
+// Calendar events without a known end time are assumed to last about as long as a ballgame
+const GAME_DURATION_HOURS = 3;
+
+// Escape text for an iCalendar property value
+const escapeIcsText = (value: string) => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Lines longer than 75 bytes are folded onto continuation lines that start with a space
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const toIcsDate = (date: string) => date.replace(/-/g, '');
+
+const getNextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+};
+
+export const buildDiaryIcs = (games: ExportableGame[]): string => {
+  const stamp = toIcsDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Gameday Diary//Diary Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Gameday Diary',
+  ];
+
+  games.forEach(game => {
+    const { logData } = game;
+    const date = game.date || '';
+    const awayTeam = game.away_team || '';
+    const homeTeam = game.home_team || '';
+    const start = game.game_datetime ? new Date(game.game_datetime) : null;
+
+    let timing: string[];
+    if (start && !Number.isNaN(start.getTime())) {
+      const end = new Date(start.getTime() + GAME_DURATION_HOURS * 60 * 60 * 1000);
+      timing = [`DTSTART:${toIcsDateTime(start)}`, `DTEND:${toIcsDateTime(end)}`];
+    } else if (date) {
+      // All-day event when the start time isn't known
+      timing = [`DTSTART;VALUE=DATE:${toIcsDate(date)}`, `DTEND;VALUE=DATE:${toIcsDate(getNextDay(date))}`];
+    } else {
+      return;
+    }
+
+    const description = [
+      game.runs_allowed !== null && game.runs_scored !== null
+        ? `Final: ${getTeamAbbreviation(awayTeam, game.league, date)} ${game.runs_allowed}, ${getTeamAbbreviation(homeTeam, game.league, date)} ${game.runs_scored}`
+        : null,
+      logData.mode === 'attended' ? 'Attended' : 'Watched',
+      logData.rating ? `Rating: ${formatRating(logData.rating)}/5` : null,
+      logData.companions.length > 0 ? `With: ${logData.companions.map(person => person.name).join(', ')}` : null,
+      logData.notes ? `\n${logData.notes}` : null,
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${logData.id}@gameday-diary`,
+      `DTSTAMP:${stamp}`,
+      ...timing,
+      `SUMMARY:${escapeIcsText(`${awayTeam} at ${homeTeam}`)}`,
+      ...(game.venue ? [`LOCATION:${escapeIcsText(game.venue)}`] : []),
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      `CATEGORIES:${logData.mode === 'attended' ? 'Attended' : 'Watched'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
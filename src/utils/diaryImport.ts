@@ -0,0 +1,183 @@
+import { parseCsv, unescapeCsvValue } from './csv';
+import { isValidRating } from '@/hooks/useGameLogs';
+
+export const MAX_IMPORT_ROWS = 500;
+
+// A spreadsheet row describing a game the user wants to bring into their diary
+export interface DiaryImportRow {
+  line: number;
+  date: string | null;
+  awayTeam: string;
+  homeTeam: string;
+  // Minutes after midnight, used to tell doubleheader games apart
+  time: number | null;
+  gameNumber: number | null;
+  gameId: string | null;
+  mode: 'attended' | 'watched' | null;
+  rating: number | null;
+  rootedFor: string;
+  notes: string;
+  warnings: string[];
+}
+
+// Accepted header names for each column, compared case-insensitively
+const COLUMN_ALIASES = {
+  date: ['date', 'game date'],
+  awayTeam: ['away team', 'away', 'visitor', 'visiting team', 'road team'],
+  homeTeam: ['home team', 'home'],
+  teams: ['teams', 'matchup', 'game'],
+  time: ['time', 'start time', 'game time'],
+  gameNumber: ['game number', 'game #', 'game no'],
+  gameId: ['game id'],
+  mode: ['mode', 'watched or attended'],
+  rating: ['rating', 'stars'],
+  rootedFor: ['rooted for', 'rooting for'],
+  notes: ['notes', 'note', 'comments'],
+};
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+const findColumns = (headers: string[]) => {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const columns = {} as Record<Column, number>;
+  (Object.keys(COLUMN_ALIASES) as Column[]).forEach(column => {
+    columns[column] = normalized.findIndex(header => COLUMN_ALIASES[column].includes(header));
+  });
+  return columns;
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Accepts 2024-06-01, 2024/06/01, 6/1/2024 and 6/1/24
+export const parseImportDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const isoMatch = trimmed.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  const usMatch = trimmed.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{2}|\d{4})$/);
+  if (isoMatch) {
+    [year, month, day] = [Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3])];
+  } else if (usMatch) {
+    [month, day, year] = [Number(usMatch[1]), Number(usMatch[2]), Number(usMatch[3])];
+    if (usMatch[3].length === 2) {
+      // Two-digit years belong to this century unless that would put them in the future
+      const currentYear = new Date().getFullYear() % 100;
+      year += year <= currentYear ? 2000 : 1900;
+    }
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Accepts 1:05 PM, 1:05pm, 7 PM and 13:05
+export const parseImportTime = (value: string): number | null => {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (match[3] === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+// Accepts numbers like 4 or 3.5 as well as star strings like ★★★½
+const parseImportRating = (value: string): number | null => {
+  const trimmed = value.trim();
+  const stars = trimmed.match(/^(★*)(½?)$/);
+  const rating = stars && trimmed
+    ? stars[1].length + (stars[2] ? 0.5 : 0)
+    : Number(trimmed.replace(/\s*(stars?|\/\s*5)$/i, ''));
+
+  if (!Number.isFinite(rating)) return null;
+  // Round to the nearest half star
+  return Math.round(rating * 2) / 2;
+};
+
+const parseImportMode = (value: string): DiaryImportRow['mode'] => {
+  const normalized = value.trim().toLowerCase();
+  if (['attended', 'in person', 'went', 'live'].includes(normalized)) return 'attended';
+  if (['watched', 'tv', 'stream', 'streamed', 'radio'].includes(normalized)) return 'watched';
+  return null;
+};
+
+// Splits "NYY @ BOS" or "Yankees vs Red Sox" into away and home teams
+const splitMatchup = (value: string) => {
+  const [away, home] = value.split(/\s+(?:@|at|vs\.?|v\.?)\s+/i);
+  return { away: away?.trim() || '', home: home?.trim() || '' };
+};
+
+export const parseDiaryCsv = (text: string): DiaryImportRow[] => {
+  const [headers, ...records] = parseCsv(text);
+  if (!headers) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = findColumns(headers);
+  if (columns.date === -1) {
+    throw new Error('The file needs a "Date" column');
+  }
+  if (columns.teams === -1 && columns.awayTeam === -1 && columns.homeTeam === -1) {
+    throw new Error('The file needs "Away Team" and "Home Team" columns (or a "Matchup" column like "NYY @ BOS")');
+  }
+  if (records.length === 0) {
+    throw new Error('The file has no rows to import');
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`You can import at most ${MAX_IMPORT_ROWS} rows at a time. Split the file and try again.`);
+  }
+
+  return records.map((cells, index) => {
+    const cell = (column: Column) => (columns[column] === -1 ? '' : unescapeCsvValue(cells[columns[column]] || '').trim());
+    const warnings: string[] = [];
+
+    const matchup = splitMatchup(cell('teams'));
+    const rawTime = cell('time');
+    const rawMode = cell('mode');
+    const rawRating = cell('rating');
+
+    const time = rawTime ? parseImportTime(rawTime) : null;
+    if (rawTime && time === null) warnings.push(`Couldn't read the time "${rawTime}"`);
+
+    const mode = rawMode ? parseImportMode(rawMode) : null;
+    if (rawMode && !mode) warnings.push(`Unknown mode "${rawMode}"`);
+
+    let rating = rawRating ? parseImportRating(rawRating) : null;
+    if (rating === 0) {
+      rating = null;
+    } else if (rawRating && (rating === null || !isValidRating(rating))) {
+      warnings.push(`Rating "${rawRating}" is not between 0.5 and 5 and was skipped`);
+      rating = null;
+    }
+
+    const gameNumber = Number(cell('gameNumber').replace(/^game\s*/i, ''));
+    const gameId = cell('gameId');
+
+    return {
+      // Header is row 1
+      line: index + 2,
+      date: parseImportDate(cell('date')),
+      awayTeam: cell('awayTeam') || matchup.away,
+      homeTeam: cell('homeTeam') || matchup.home,
+      time,
+      gameNumber: Number.isInteger(gameNumber) && gameNumber > 0 ? gameNumber : null,
+      gameId: /^\d+$/.test(gameId) ? gameId : null,
+      mode,
+      rating,
+      rootedFor: cell('rootedFor'),
+      notes: cell('notes'),
+      warnings,
+    };
+  });
+};
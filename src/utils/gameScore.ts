@@ -0,0 +1,24 @@
+export interface GameScoreInput {
+  league: 'NFL' | 'MLB';
+  ptsOff?: number;
+  ptsDef?: number;
+  runsScored?: number;
+  runsAllowed?: number;
+  isFuture?: boolean;
+  isToday?: boolean;
+}
+
+// Final score as "away - home", or null for games that haven't been played
+export const getGameScore = ({ league, ptsOff, ptsDef, runsScored, runsAllowed, isFuture, isToday }: GameScoreInput): string | null => {
+  if (league === 'NFL' && ptsOff !== undefined && ptsDef !== undefined) {
+    if (!isFuture && !isToday && (ptsOff !== 0 || ptsDef !== 0)) {
+      return `${ptsDef} - ${ptsOff}`;
+    }
+  }
+  if (league === 'MLB' && runsScored !== undefined && runsAllowed !== undefined) {
+    if (!isFuture && !isToday && (runsScored !== 0 || runsAllowed !== 0)) {
+      return `${runsAllowed} - ${runsScored}`;
+    }
+  }
+  return null;
+};
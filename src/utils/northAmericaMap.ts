@@ -0,0 +1,78 @@
+// A hand-simplified outline of North America between the major league cities, drawn as SVG
+// with no tile service. Shapes are [longitude, latitude] rings, coarse enough to stay small.
+
+type Ring = [number, number][];
+
+const BOUNDS = { west: -126, east: -64, south: 23.5, north: 50.5 };
+// Squash longitude by the middle latitude so the map isn't stretched east-west
+const LONGITUDE_SCALE = Math.cos(((BOUNDS.north + BOUNDS.south) / 2) * (Math.PI / 180));
+
+export const MAP_WIDTH = 1000;
+export const MAP_HEIGHT = Math.round(
+  (MAP_WIDTH * (BOUNDS.north - BOUNDS.south)) / ((BOUNDS.east - BOUNDS.west) * LONGITUDE_SCALE)
+);
+
+export const projectToMap = (latitude: number, longitude: number) => ({
+  x: ((longitude - BOUNDS.west) / (BOUNDS.east - BOUNDS.west)) * MAP_WIDTH,
+  y: ((BOUNDS.north - latitude) / (BOUNDS.north - BOUNDS.south)) * MAP_HEIGHT,
+});
+
+const UNITED_STATES: Ring = [
+  [-124.7, 48.4], [-123.0, 49.0], [-95.2, 49.0], [-89.5, 48.0], [-84.4, 46.5], [-82.4, 43.0],
+  [-79.0, 43.3], [-76.8, 43.6], [-74.7, 45.0], [-71.5, 45.0], [-70.0, 46.7], [-69.2, 47.4],
+  [-67.8, 47.1], [-67.0, 44.8], [-70.2, 43.6], [-70.6, 42.6], [-70.0, 41.8], [-71.5, 41.3],
+  [-74.0, 40.6], [-74.9, 38.9], [-75.1, 38.3], [-76.0, 37.0], [-75.7, 35.9], [-75.5, 35.2],
+  [-76.9, 34.6], [-78.5, 33.8], [-79.9, 32.7], [-81.1, 31.8], [-81.4, 30.3], [-80.6, 28.4],
+  [-80.0, 26.7], [-80.1, 25.8], [-80.4, 25.2], [-81.1, 25.1], [-81.8, 26.1], [-82.7, 27.7],
+  [-82.8, 29.0], [-84.0, 30.0], [-85.4, 29.7], [-86.5, 30.4], [-88.0, 30.6], [-89.6, 30.2], [-89.4, 29.0],
+  [-90.9, 29.1], [-93.8, 29.7], [-94.8, 29.3], [-97.2, 27.6], [-97.2, 25.9], [-99.1, 26.4],
+  [-100.3, 28.3], [-101.4, 29.8], [-102.7, 29.7], [-103.2, 29.0], [-104.5, 29.6], [-106.5, 31.8],
+  [-108.2, 31.8], [-108.2, 31.3], [-111.1, 31.3], [-114.8, 32.5], [-117.1, 32.5], [-117.3, 33.2],
+  [-118.4, 33.8], [-120.6, 34.6], [-121.9, 36.6], [-122.5, 37.8], [-123.8, 39.8], [-124.4, 42.0],
+  [-124.0, 46.3],
+];
+
+const CANADA: Ring = [
+  [-128.0, 52.0], [-124.7, 48.4], [-123.0, 49.0], [-95.2, 49.0], [-89.5, 48.0], [-84.4, 46.5],
+  [-82.4, 43.0], [-79.0, 43.3], [-76.8, 43.6], [-74.7, 45.0], [-71.5, 45.0], [-70.0, 46.7],
+  [-69.2, 47.4], [-67.8, 47.1], [-67.0, 44.8], [-66.0, 45.0], [-64.5, 45.6], [-62.0, 45.6],
+  [-62.0, 52.0],
+];
+
+const MEXICO: Ring = [
+  [-117.1, 32.5], [-114.8, 32.5], [-111.1, 31.3], [-108.2, 31.3], [-108.2, 31.8], [-106.5, 31.8],
+  [-104.5, 29.6], [-103.2, 29.0], [-102.7, 29.7], [-101.4, 29.8], [-100.3, 28.3], [-99.1, 26.4],
+  [-97.2, 25.9], [-97.6, 22.0], [-106.0, 22.0], [-109.0, 26.0], [-112.8, 31.3], [-114.8, 31.0],
+  [-112.0, 27.0], [-109.5, 23.0], [-110.5, 22.5], [-114.0, 27.5], [-116.5, 31.5],
+];
+
+const CUBA: Ring = [
+  [-84.9, 21.9], [-83.0, 23.0], [-80.5, 23.2], [-77.0, 21.8], [-74.2, 20.2], [-77.5, 19.9],
+  [-81.5, 22.2],
+];
+
+const GREAT_LAKES: Ring[] = [
+  // Superior
+  [[-92.1, 46.7], [-89.5, 48.0], [-88.4, 48.4], [-86.0, 48.8], [-84.8, 47.5], [-84.6, 46.5], [-86.5, 46.4], [-89.0, 46.8]],
+  // Michigan
+  [[-87.8, 41.7], [-87.2, 41.6], [-86.6, 42.2], [-86.2, 43.5], [-86.4, 44.8], [-85.6, 45.8], [-84.8, 45.8], [-86.8, 45.9], [-88.0, 44.5], [-87.6, 43.5], [-87.9, 42.5]],
+  // Huron
+  [[-84.7, 45.9], [-83.5, 45.9], [-81.5, 45.4], [-80.0, 45.0], [-81.7, 44.0], [-82.4, 43.0], [-82.9, 44.0], [-83.4, 44.4], [-83.5, 45.1], [-84.5, 45.6]],
+  // Erie
+  [[-83.4, 41.7], [-81.7, 41.5], [-79.8, 42.2], [-78.9, 42.9], [-80.5, 42.6], [-82.5, 42.0]],
+  // Ontario
+  [[-79.8, 43.3], [-79.2, 43.2], [-76.2, 43.5], [-76.3, 44.1], [-77.5, 44.0], [-79.4, 43.7]],
+];
+
+const toPath = (ring: Ring) =>
+  ring
+    .map(([longitude, latitude], index) => {
+      const { x, y } = projectToMap(latitude, longitude);
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ') + ' Z';
+
+export const LAND_PATHS = [UNITED_STATES, CANADA, MEXICO, CUBA].map(toPath);
+export const LAKE_PATHS = GREAT_LAKES.map(toPath);
+// The US outline again, for a border line over the neighbouring countries
+export const BORDER_PATH = toPath(UNITED_STATES);
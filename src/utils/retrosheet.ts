@@ -0,0 +1,195 @@
+// Parsing for Retrosheet game logs (https://www.retrosheet.org/gamelogs/glfields.txt)
+import { parseCsv } from './csv';
+import { MLB_TEAM_MAPPINGS } from './team-mappings';
+
+export interface RetrosheetGame {
+  retro_game_id: string;
+  game_date: string;
+  game_num: number;
+  visitor_code: string;
+  home_code: string;
+  visitor_score: number | null;
+  home_score: number | null;
+  park_id: string;
+}
+
+// A game log row has 161 fields; these are the ones the schedule needs (zero-based)
+const FIELD = {
+  date: 0,
+  gameNumber: 1,
+  visitor: 3,
+  home: 6,
+  visitorScore: 9,
+  homeScore: 10,
+  park: 16,
+};
+const MIN_FIELDS = FIELD.park + 1;
+
+// Names for the parks major league teams have called home since the 1970s, keyed by Retrosheet park ID
+export const RETROSHEET_PARKS: Record<string, string> = {
+  ANA01: 'Anaheim Stadium',
+  ARL01: 'Arlington Stadium',
+  ARL02: 'The Ballpark in Arlington',
+  ATL01: 'Atlanta-Fulton County Stadium',
+  ATL02: 'Turner Field',
+  BAL11: 'Memorial Stadium',
+  BAL12: 'Oriole Park at Camden Yards',
+  BOS07: 'Fenway Park',
+  CHI10: 'Comiskey Park',
+  CHI11: 'Wrigley Field',
+  CHI12: 'New Comiskey Park',
+  CIN07: 'Riverfront Stadium',
+  CLE07: 'Cleveland Stadium',
+  CLE08: 'Jacobs Field',
+  DEN01: 'Mile High Stadium',
+  DEN02: 'Coors Field',
+  DET04: 'Tiger Stadium',
+  HOU02: 'Astrodome',
+  KAN06: 'Royals Stadium',
+  LOS03: 'Dodger Stadium',
+  MIA01: 'Joe Robbie Stadium',
+  MIL05: 'County Stadium',
+  MIN03: 'Hubert H. Humphrey Metrodome',
+  MON01: 'Jarry Park',
+  MON02: 'Stade Olympique',
+  NYC16: 'Yankee Stadium',
+  NYC17: 'Shea Stadium',
+  OAK01: 'Oakland-Alameda County Coliseum',
+  PHI12: 'Veterans Stadium',
+  PHO01: 'Bank One Ballpark',
+  PIT07: 'Three Rivers Stadium',
+  SAN01: 'Jack Murphy Stadium',
+  SEA02: 'Kingdome',
+  SFO02: 'Candlestick Park',
+  STL09: 'Busch Stadium',
+  STP01: 'Tropicana Field',
+  TOR01: 'Exhibition Stadium',
+  TOR02: 'SkyDome',
+};
+
+// Postseason game logs come in separate files named after the round
+const GAME_TYPES_BY_FILE: Record<string, string> = {
+  GLWC: 'F',
+  GLDV: 'D',
+  GLLC: 'L',
+  GLWS: 'W',
+};
+
+export const getRetrosheetGameType = (fileName: string): string => {
+  const prefix = fileName.toUpperCase().slice(0, 4);
+  return GAME_TYPES_BY_FILE[prefix] || 'R';
+};
+
+const toScore = (value: string) => {
+  const score = parseInt(value, 10);
+  return Number.isNaN(score) ? null : score;
+};
+
+export const parseRetrosheetGameLog = (text: string): { games: RetrosheetGame[]; invalidRows: number } => {
+  const games: RetrosheetGame[] = [];
+  let invalidRows = 0;
+
+  parseCsv(text).forEach(fields => {
+    const date = fields[FIELD.date]?.trim() || '';
+    const home = fields[FIELD.home]?.trim().toUpperCase() || '';
+    const visitor = fields[FIELD.visitor]?.trim().toUpperCase() || '';
+    if (fields.length < MIN_FIELDS || !/^\d{8}$/.test(date) || !home || !visitor) {
+      invalidRows++;
+      return;
+    }
+
+    // Game number is 0 for a single game and 1 or 2 for doubleheaders ("A"/"B" in a few old logs)
+    const rawNumber = fields[FIELD.gameNumber].trim().toUpperCase();
+    const gameNumber = rawNumber === 'A' ? 1 : rawNumber === 'B' ? 2 : parseInt(rawNumber, 10) || 0;
+
+    games.push({
+      retro_game_id: `${home}${date}${gameNumber}`,
+      game_date: `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`,
+      game_num: gameNumber,
+      visitor_code: visitor,
+      home_code: home,
+      visitor_score: toScore(fields[FIELD.visitorScore]),
+      home_score: toScore(fields[FIELD.homeScore]),
+      park_id: fields[FIELD.park]?.trim().toUpperCase() || '',
+    });
+  });
+
+  return { games, invalidRows };
+};
+
+const findMapping = (year: number, matches: (code: string) => boolean) =>
+  MLB_TEAM_MAPPINGS.find(team =>
+    matches(team.bbrefCode) &&
+    team.yearsActive.start <= year &&
+    (team.yearsActive.end === undefined || team.yearsActive.end >= year)
+  );
+
+// Resolve a Retrosheet team code to the StatsAPI team name used in mlb_schedule.
+// Retrosheet codes mostly match the bbref codes in MLB_TEAM_MAPPINGS; the rest (e.g. WAS) go
+// through the file_code -> bbref code map from useMLBTeamCodes.
+export const resolveRetrosheetTeam = (code: string, year: number, teamCodeMap: Record<string, string>): string | null => {
+  const mapping =
+    findMapping(year, bbrefCode => bbrefCode === code) ||
+    (teamCodeMap[code] ? findMapping(year, bbrefCode => bbrefCode === teamCodeMap[code]) : undefined);
+  return mapping?.statsApiName || null;
+};
+
+// A game ready for the import_retrosheet_games function
+export type RetrosheetScheduleRow = {
+  retro_game_id: string;
+  retro_park_id: string;
+  season: number;
+  game_date: string;
+  game_num: number;
+  doubleheader: string;
+  game_type: string;
+  home_name: string;
+  away_name: string;
+  home_score: number | null;
+  away_score: number | null;
+  venue_name: string | null;
+  winning_team: string | null;
+  losing_team: string | null;
+};
+
+export const toScheduleRows = (
+  games: RetrosheetGame[],
+  gameType: string,
+  teamCodeMap: Record<string, string>
+): { rows: RetrosheetScheduleRow[]; unmappedCodes: string[] } => {
+  const rows: RetrosheetScheduleRow[] = [];
+  const unmappedCodes = new Set<string>();
+
+  games.forEach(game => {
+    const season = parseInt(game.game_date.slice(0, 4), 10);
+    const homeName = resolveRetrosheetTeam(game.home_code, season, teamCodeMap);
+    const awayName = resolveRetrosheetTeam(game.visitor_code, season, teamCodeMap);
+    if (!homeName) unmappedCodes.add(`${game.home_code} (${season})`);
+    if (!awayName) unmappedCodes.add(`${game.visitor_code} (${season})`);
+    if (!homeName || !awayName) return;
+
+    const hasScore = game.home_score !== null && game.visitor_score !== null && game.home_score !== game.visitor_score;
+    const homeWon = hasScore && (game.home_score as number) > (game.visitor_score as number);
+
+    rows.push({
+      retro_game_id: game.retro_game_id,
+      retro_park_id: game.park_id,
+      season,
+      game_date: game.game_date,
+      // The schedule numbers single games 1; Retrosheet uses 0
+      game_num: game.game_num || 1,
+      // Retrosheet doesn't say whether a doubleheader was split, so mark it "S" so box score links get the game number
+      doubleheader: game.game_num > 0 ? 'S' : 'N',
+      game_type: gameType,
+      home_name: homeName,
+      away_name: awayName,
+      home_score: game.home_score,
+      away_score: game.visitor_score,
+      venue_name: RETROSHEET_PARKS[game.park_id] || null,
+      winning_team: hasScore ? (homeWon ? homeName : awayName) : null,
+      losing_team: hasScore ? (homeWon ? awayName : homeName) : null,
+    });
+  });
+
+  return { rows, unmappedCodes: [...unmappedCodes].sort() };
+};
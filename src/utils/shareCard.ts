@@ -0,0 +1,238 @@
+// Renders a diary entry as a square PNG for sharing
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getLogoByYear } from './team-logos/logo-by-year';
+import { getTeamAbbreviation } from './teamLogos';
+import { getGameScore } from './gameScore';
+import type { ExportableGame } from './diaryExport';
+
+const SIZE = 1080;
+const PADDING = 60;
+const LOGO_SIZE = 220;
+const NOTES_MAX_LINES = 3;
+
+const COLORS = {
+  field: '#1B5E20',
+  gold: '#FFB300',
+  text: '#111827',
+  muted: '#4B5563',
+  faint: '#D1D5DB',
+};
+
+const FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+const font = (size: number, weight = 'normal', style = 'normal') => `${style} ${weight} ${size}px ${FONT_FAMILY}`;
+
+// The logo host sends no CORS headers, and a canvas with its images drawn on can't be exported.
+// The team-logo edge function fetches them instead, so they're drawn from same-origin blob URLs.
+const loadLogo = async (url: string): Promise<HTMLImageElement | null> => {
+  const { data, error } = await supabase.functions.invoke('team-logo', { body: { url } });
+  if (error || !(data instanceof Blob)) return null;
+
+  const objectUrl = URL.createObjectURL(data);
+  try {
+    return await new Promise<HTMLImageElement | null>(resolve => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => resolve(null);
+      img.src = objectUrl;
+    });
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+const drawLogo = (ctx: CanvasRenderingContext2D, logo: HTMLImageElement | null, abbr: string, centerX: number, centerY: number) => {
+  if (logo) {
+    // Fit the logo inside the box without stretching it
+    const scale = Math.min(LOGO_SIZE / logo.naturalWidth, LOGO_SIZE / logo.naturalHeight);
+    const width = logo.naturalWidth * scale;
+    const height = logo.naturalHeight * scale;
+    ctx.drawImage(logo, centerX - width / 2, centerY - height / 2, width, height);
+    return;
+  }
+
+  // Without a logo, fall back to the abbreviation in a circle
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, LOGO_SIZE / 2, 0, Math.PI * 2);
+  ctx.fillStyle = COLORS.field;
+  ctx.fill();
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = font(72, 'bold');
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(abbr, centerX, centerY);
+};
+
+const traceStar = (ctx: CanvasRenderingContext2D, centerX: number, centerY: number, radius: number) => {
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const r = i % 2 === 0 ? radius : radius * 0.45;
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    const x = centerX + r * Math.cos(angle);
+    const y = centerY + r * Math.sin(angle);
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.closePath();
+};
+
+// Five stars with half-star fills, matching StarRatingDisplay
+const drawStars = (ctx: CanvasRenderingContext2D, rating: number, centerY: number) => {
+  const radius = 30;
+  const gap = 16;
+  const totalWidth = 5 * radius * 2 + 4 * gap;
+  const startX = SIZE / 2 - totalWidth / 2 + radius;
+
+  for (let star = 1; star <= 5; star++) {
+    const x = startX + (star - 1) * (radius * 2 + gap);
+    const fill = rating >= star ? 1 : rating >= star - 0.5 ? 0.5 : 0;
+
+    traceStar(ctx, x, centerY, radius);
+    ctx.fillStyle = COLORS.faint;
+    ctx.fill();
+
+    if (fill > 0) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x - radius, centerY - radius, radius * 2 * fill, radius * 2);
+      ctx.clip();
+      traceStar(ctx, x, centerY, radius);
+      ctx.fillStyle = COLORS.gold;
+      ctx.fill();
+      ctx.restore();
+    }
+  }
+};
+
+// Greedy word wrap, ending the last line with an ellipsis when the text doesn't fit
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number) => {
+  const words = text.replace(/\s+/g, ' ').trim().split(' ');
+  const lines: string[] = [];
+  let line = '';
+  let index = 0;
+
+  for (; index < words.length; index++) {
+    const candidate = line ? `${line} ${words[index]}` : words[index];
+    if (!line || ctx.measureText(candidate).width <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    lines.push(line);
+    line = '';
+    if (lines.length === maxLines) break;
+    line = words[index];
+  }
+  if (line) lines.push(line);
+
+  if (index < words.length) {
+    let last = lines[lines.length - 1];
+    while (last && ctx.measureText(`${last}…`).width > maxWidth) {
+      last = last.slice(0, -1);
+    }
+    lines[lines.length - 1] = `${last.trimEnd()}…`;
+  }
+
+  return lines;
+};
+
+const formatCardDate = (date: string) => {
+  try {
+    return format(parseISO(date), 'EEEE, MMMM d, yyyy');
+  } catch (error) {
+    return date;
+  }
+};
+
+export const renderShareCard = async (game: ExportableGame): Promise<Blob> => {
+  const date = game.date || '';
+  const year = parseInt(date.slice(0, 4), 10) || new Date().getFullYear();
+  const homeAbbr = getTeamAbbreviation(game.home_team || '', 'MLB', date);
+  const awayAbbr = getTeamAbbreviation(game.away_team || '', 'MLB', date);
+
+  const logoUrls = [getLogoByYear(awayAbbr, year, 'MLB'), getLogoByYear(homeAbbr, year, 'MLB')];
+  const [awayLogo, homeLogo] = await Promise.all(logoUrls.map(url => (url ? loadLogo(url) : Promise.resolve(null))));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Your browser cannot draw images');
+
+  // Green border around a white card
+  ctx.fillStyle = COLORS.field;
+  ctx.fillRect(0, 0, SIZE, SIZE);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.beginPath();
+  ctx.roundRect(PADDING / 2, PADDING / 2, SIZE - PADDING, SIZE - PADDING, 32);
+  ctx.fill();
+
+  ctx.textBaseline = 'alphabetic';
+  ctx.font = font(28, 'bold');
+  ctx.fillStyle = COLORS.field;
+  ctx.textAlign = 'left';
+  ctx.fillText('GAMEDAY DIARY', PADDING + 10, PADDING + 50);
+  ctx.textAlign = 'right';
+  ctx.fillStyle = COLORS.muted;
+  ctx.fillText(game.logData.mode === 'attended' ? 'ATTENDED' : 'WATCHED', SIZE - PADDING - 10, PADDING + 50);
+
+  const logoY = 300;
+  drawLogo(ctx, awayLogo, awayAbbr, SIZE * 0.25, logoY);
+  drawLogo(ctx, homeLogo, homeAbbr, SIZE * 0.75, logoY);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = COLORS.text;
+  ctx.font = font(52, 'bold');
+  ctx.fillText(awayAbbr, SIZE * 0.25, logoY + LOGO_SIZE / 2 + 70);
+  ctx.fillText(homeAbbr, SIZE * 0.75, logoY + LOGO_SIZE / 2 + 70);
+  ctx.fillStyle = COLORS.muted;
+  ctx.font = font(56);
+  ctx.fillText('@', SIZE / 2, logoY + 20);
+
+  const score = getGameScore({
+    league: 'MLB',
+    runsScored: game.runs_scored ?? undefined,
+    runsAllowed: game.runs_allowed ?? undefined,
+  });
+  ctx.fillStyle = COLORS.field;
+  ctx.font = font(score ? 120 : 56, 'bold');
+  ctx.fillText(score || 'Scheduled', SIZE / 2, 630);
+
+  ctx.fillStyle = COLORS.muted;
+  if (game.venue) {
+    ctx.font = font(36, '600');
+    ctx.fillText(game.venue, SIZE / 2, 700, SIZE - PADDING * 3);
+  }
+  ctx.font = font(32);
+  ctx.fillText(formatCardDate(date), SIZE / 2, 750);
+
+  if (game.logData.rating) {
+    drawStars(ctx, game.logData.rating, 815);
+  }
+
+  const notes = game.logData.notes?.trim();
+  if (notes) {
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(32, 'normal', 'italic');
+    const lines = wrapText(ctx, notes, SIZE - PADDING * 4, NOTES_MAX_LINES);
+    lines.forEach((line, index) => {
+      const text = `${index === 0 ? '“' : ''}${line}${index === lines.length - 1 ? '”' : ''}`;
+      ctx.fillText(text, SIZE / 2, 900 + index * 44, SIZE - PADDING * 3);
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    try {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to create image'))), 'image/png');
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
+
+export const getShareCardFilename = (game: ExportableGame) => {
+  const home = getTeamAbbreviation(game.home_team || '', 'MLB', game.date || undefined);
+  const away = getTeamAbbreviation(game.away_team || '', 'MLB', game.date || undefined);
+  return `gameday-diary-${game.date}-${away}-at-${home}.png`.toLowerCase();
+};
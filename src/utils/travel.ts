@@ -0,0 +1,87 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// An attended game at a park with known coordinates
+export interface TravelStop extends Coordinates {
+  date: string;
+  venueId: number;
+  venueName: string;
+}
+
+export interface RoadTrip {
+  start: string;
+  end: string;
+  games: number;
+  parks: string[];
+  miles: number;
+}
+
+// Parks farther than this from home count as away parks for road trips
+export const AWAY_PARK_MILES = 100;
+// Consecutive away games this many days apart or fewer belong to the same trip
+export const MAX_TRIP_GAP_DAYS = 3;
+
+const EARTH_RADIUS_MILES = 3958.8;
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+// Great-circle distance, which undercounts the drive but needs no routing service
+export const getDistanceMiles = (from: Coordinates, to: Coordinates) => {
+  const latitudeDelta = toRadians(to.latitude - from.latitude);
+  const longitudeDelta = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(latitudeDelta / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(longitudeDelta / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+// Miles for leaving home, visiting each stop in order and coming back
+export const getLoopMiles = (home: Coordinates, stops: TravelStop[]) => {
+  const route = [home, ...stops, home];
+  return route.slice(1).reduce((miles, point, index) => miles + getDistanceMiles(route[index], point), 0);
+};
+
+// Split attended games into road trips (runs of away park visits on nearby dates) and single outings,
+// so a week-long swing is counted as one loop rather than a round trip per game
+export const groupTravel = (home: Coordinates, stops: TravelStop[]) => {
+  // A doubleheader (or two viewings of one game) is a single visit to the park
+  const visitKey = (stop: TravelStop) => `${stop.date}:${stop.venueId}`;
+  const gamesPerVisit = new Map<string, number>();
+  const visits = new Map<string, TravelStop>();
+  stops.forEach(stop => {
+    gamesPerVisit.set(visitKey(stop), (gamesPerVisit.get(visitKey(stop)) || 0) + 1);
+    visits.set(visitKey(stop), stop);
+  });
+  const sorted = [...visits.values()].sort((a, b) => a.date.localeCompare(b.date));
+  const groups: TravelStop[][] = [];
+
+  sorted.forEach(stop => {
+    const isAway = getDistanceMiles(home, stop) > AWAY_PARK_MILES;
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+    const continuesTrip = isAway && previous &&
+      getDistanceMiles(home, previous) > AWAY_PARK_MILES &&
+      differenceInCalendarDays(parseISO(stop.date), parseISO(previous.date)) <= MAX_TRIP_GAP_DAYS;
+
+    if (continuesTrip) {
+      current.push(stop);
+    } else {
+      groups.push([stop]);
+    }
+  });
+
+  const roadTrips: RoadTrip[] = groups
+    .filter(group => group.length > 1)
+    .map(group => ({
+      start: group[0].date,
+      end: group[group.length - 1].date,
+      games: group.reduce((games, visit) => games + (gamesPerVisit.get(visitKey(visit)) || 1), 0),
+      parks: [...new Set(group.map(stop => stop.venueName))],
+      miles: Math.round(getLoopMiles(home, group)),
+    }));
+
+  return { groups, roadTrips };
+};
@@ -0,0 +1,68 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+// A ballpark from the venues registry, keyed by StatsAPI venue_id
+export type Venue = Tables<'venues'>;
+
+interface VenueRef {
+  venue_id: number | null;
+  venue_name: string | null;
+  retro_park_id?: string | null;
+  season: number | null;
+}
+
+// Parks still hosting major league games
+export const isCurrentVenue = (venue: Venue) => venue.closed_year === null && !!venue.home_team;
+
+// Every park in the registry is in one of these states or provinces; the rest are on Eastern time
+const STATE_TIME_ZONES: Record<string, string> = {
+  AZ: 'America/Phoenix',
+  CA: 'America/Los_Angeles',
+  WA: 'America/Los_Angeles',
+  CO: 'America/Denver',
+  IL: 'America/Chicago',
+  MN: 'America/Chicago',
+  MO: 'America/Chicago',
+  TX: 'America/Chicago',
+  WI: 'America/Chicago',
+  ON: 'America/Toronto',
+  QC: 'America/Toronto',
+};
+
+export const getVenueTimeZone = (venue: Venue | null) =>
+  (venue?.state && STATE_TIME_ZONES[venue.state]) || 'America/New_York';
+
+export const getVenueLocation = (venue: Venue) => [venue.city, venue.state].filter(Boolean).join(', ');
+
+// Every name a park has gone by, current name first
+export const getVenueNames = (venue: Venue) => [venue.name, ...venue.former_names];
+
+// Find the park a schedule row was played at: by venue_id, then Retrosheet park id, then by name
+// within the years the park was open (old and new Yankee Stadium share a name)
+export const findVenue = (venues: Venue[], game: VenueRef): Venue | null => {
+  if (game.venue_id !== null) {
+    const byId = venues.find(venue => venue.venue_id === game.venue_id);
+    if (byId) return byId;
+  }
+
+  if (game.retro_park_id) {
+    const byPark = venues.find(venue => venue.retro_park_ids.includes(game.retro_park_id || ''));
+    if (byPark) return byPark;
+  }
+
+  const name = game.venue_name?.trim().toLowerCase();
+  if (!name) return null;
+  const season = game.season ?? new Date().getFullYear();
+  return venues.find(venue =>
+    getVenueNames(venue).some(venueName => venueName.toLowerCase() === name) &&
+    season >= (venue.opened_year ?? -Infinity) &&
+    season <= (venue.closed_year ?? Infinity)
+  ) || null;
+};
+
+// Identity to group games by: the venue_id when the park is in the registry, otherwise the raw name
+export const getVenueKey = (venues: Venue[], game: VenueRef) => {
+  const venue = findVenue(venues, game);
+  return venue
+    ? { key: `venue:${venue.venue_id}`, name: venue.name, venue }
+    : { key: `name:${game.venue_name || ''}`, name: game.venue_name || '', venue: null };
+};
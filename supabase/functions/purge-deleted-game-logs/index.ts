@@ -0,0 +1,72 @@
+// Permanently removes diary entries that have been in the trash for more than 30 days, along with
+// their photo files. Storage objects can only be deleted through the Storage API, so the nightly
+// cron job calls this function instead of purging in SQL.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const TRASH_RETENTION_DAYS = 30;
+const PHOTOS_BUCKET = 'game-log-photos';
+const BATCH_SIZE = 100;
+
+Deno.serve(async (req) => {
+  const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Not authorized' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  let purged = 0;
+  try {
+    while (true) {
+      const { data: logs, error: logsError } = await supabase
+        .from('user_game_logs')
+        .select('id')
+        .lt('deleted_at', cutoff)
+        .limit(BATCH_SIZE);
+
+      if (logsError) throw logsError;
+      if (logs.length === 0) break;
+
+      const logIds = logs.map(log => log.id);
+
+      const { data: photos, error: photosError } = await supabase
+        .from('game_log_photos')
+        .select('storage_path')
+        .in('game_log_id', logIds);
+
+      if (photosError) throw photosError;
+
+      // Remove the files before the rows, so a failure leaves the entries in place for the next run
+      if (photos.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from(PHOTOS_BUCKET)
+          .remove(photos.map(photo => photo.storage_path));
+
+        if (storageError) throw storageError;
+      }
+
+      // Photo rows cascade with their entries
+      const { error: deleteError } = await supabase
+        .from('user_game_logs')
+        .delete()
+        .in('id', logIds)
+        .lt('deleted_at', cutoff);
+
+      if (deleteError) throw deleteError;
+      purged += logIds.length;
+    }
+  } catch (error) {
+    console.error('Failed to purge deleted game logs:', error);
+    return jsonResponse({ error: 'Purge failed', purged }, 500);
+  }
+
+  return jsonResponse({ purged });
+});
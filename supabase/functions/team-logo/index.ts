@@ -0,0 +1,104 @@
+// Fetches a team logo for the share card. The logo host doesn't send CORS headers, so the browser
+// can't draw its images onto a canvas it then exports; proxying them here makes them same-origin blobs.
+
+const ALLOWED_HOSTS = ['content.sportslogos.net'];
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const isAllowedUrl = (url: URL) => url.protocol === 'https:' && ALLOWED_HOSTS.includes(url.hostname);
+
+// Read a response body, giving up as soon as it goes over maxBytes
+const readLimited = async (response: Response, maxBytes: number): Promise<Uint8Array | null> => {
+  if (Number(response.headers.get('Content-Length')) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const jsonError = (message: string, status: number) =>
+    new Response(JSON.stringify({ error: message }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  let url: URL;
+  try {
+    const { url: logoUrl } = await req.json();
+    url = new URL(logoUrl);
+  } catch {
+    return jsonError('A logo url is required', 400);
+  }
+
+  if (!isAllowedUrl(url)) {
+    return jsonError('Logos can only be loaded from known hosts', 400);
+  }
+
+  // Follow redirects by hand so every hop is checked against the allowed hosts
+  let response = await fetch(url, { redirect: 'manual' });
+  for (let redirects = 0; response.status >= 300 && response.status < 400; redirects++) {
+    const location = response.headers.get('Location');
+    await response.body?.cancel();
+    if (!location || redirects === MAX_REDIRECTS) {
+      return jsonError('Logo not found', 404);
+    }
+
+    url = new URL(location, url);
+    if (!isAllowedUrl(url)) {
+      return jsonError('Logos can only be loaded from known hosts', 400);
+    }
+    response = await fetch(url, { redirect: 'manual' });
+  }
+
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!response.ok || !contentType.startsWith('image/')) {
+    await response.body?.cancel();
+    return jsonError('Logo not found', 404);
+  }
+
+  const logo = await readLimited(response, MAX_LOGO_BYTES);
+  if (!logo) {
+    return jsonError('Logo is too large', 413);
+  }
+
+  return new Response(logo, {
+    headers: {
+      ...corsHeaders,
+      // functions-js hands octet-stream responses back as a Blob
+      'Content-Type': 'application/octet-stream',
+      'Cache-Control': 'public, max-age=86400',
+    },
+  });
+});
@@ -0,0 +1,60 @@
+-- Photo attachments for diary entries (ballpark shots, scoreboards, ticket stubs)
+
+create table if not exists public.game_log_photos (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  game_log_id uuid not null references public.user_game_logs (id) on delete cascade,
+  storage_path text not null unique,
+  caption text,
+  created_at timestamptz default now()
+);
+
+create index if not exists game_log_photos_game_log_id_idx on public.game_log_photos (game_log_id);
+create index if not exists game_log_photos_user_id_idx on public.game_log_photos (user_id);
+
+alter table public.game_log_photos enable row level security;
+
+create policy "Users can view their own game log photos"
+  on public.game_log_photos for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add photos to their own game logs"
+  on public.game_log_photos for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.user_game_logs l
+      where l.id = game_log_id and l.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update their own game log photos"
+  on public.game_log_photos for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own game log photos"
+  on public.game_log_photos for delete
+  using (auth.uid() = user_id);
+
+-- Private bucket; objects are stored under "<user_id>/<game_log_id>/<file>"
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'game-log-photos',
+  'game-log-photos',
+  false,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic']
+)
+on conflict (id) do nothing;
+
+create policy "Users can view their own photo files"
+  on storage.objects for select
+  using (bucket_id = 'game-log-photos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own photo files"
+  on storage.objects for insert
+  with check (bucket_id = 'game-log-photos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own photo files"
+  on storage.objects for delete
+  using (bucket_id = 'game-log-photos' and (storage.foldername(name))[1] = auth.uid()::text);
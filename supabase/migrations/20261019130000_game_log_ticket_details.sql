@@ -0,0 +1,21 @@
+-- Structured ticket and seat details for attended games
+
+create type public.ticket_source as enum (
+  'box_office',
+  'online',
+  'season_ticket',
+  'secondary_market',
+  'gift',
+  'giveaway',
+  'other'
+);
+
+alter table public.user_game_logs
+  add column if not exists seat_section text,
+  add column if not exists seat_row text,
+  add column if not exists seat_number text,
+  add column if not exists ticket_price numeric(8, 2),
+  add column if not exists ticket_source public.ticket_source;
+
+alter table public.user_game_logs
+  add constraint user_game_logs_ticket_price_check check (ticket_price is null or ticket_price >= 0);
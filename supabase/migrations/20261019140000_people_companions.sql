@@ -0,0 +1,61 @@
+-- Companions as first-class people instead of the free-text company string
+
+create table if not exists public.people (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(trim(name)) between 1 and 100),
+  created_at timestamptz default now()
+);
+
+create unique index if not exists people_user_id_name_key on public.people (user_id, lower(name));
+
+create table if not exists public.game_log_companions (
+  game_log_id uuid not null references public.user_game_logs (id) on delete cascade,
+  person_id uuid not null references public.people (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz default now(),
+  primary key (game_log_id, person_id)
+);
+
+create index if not exists game_log_companions_person_id_idx on public.game_log_companions (person_id);
+
+alter table public.people enable row level security;
+alter table public.game_log_companions enable row level security;
+
+create policy "Users can manage their own people"
+  on public.people for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can manage companions on their own game logs"
+  on public.game_log_companions for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.user_game_logs l where l.id = game_log_id and l.user_id = auth.uid())
+    and exists (select 1 from public.people p where p.id = person_id and p.user_id = auth.uid())
+  );
+
+-- Split existing company strings ("Dad, Mike & Sarah") into people and link them
+-- (names are cut to the 100 characters people.name allows)
+with split_names as (
+  select l.id as game_log_id, l.user_id, left(trim(n), 100) as name
+  from public.user_game_logs l
+  cross join lateral unnest(regexp_split_to_array(l.company, '\s*(,|&|/|\s+and\s+)\s*')) as n
+  where l.company is not null
+)
+insert into public.people (user_id, name)
+select distinct on (user_id, lower(name)) user_id, name
+from split_names
+where name <> '' and lower(name) not in ('alone', 'solo', 'myself', 'me', 'nobody', 'none', 'n/a')
+on conflict do nothing;
+
+insert into public.game_log_companions (game_log_id, person_id, user_id)
+select l.id, p.id, l.user_id
+from public.user_game_logs l
+cross join lateral unnest(regexp_split_to_array(l.company, '\s*(,|&|/|\s+and\s+)\s*')) as n
+join public.people p on p.user_id = l.user_id and lower(p.name) = lower(left(trim(n), 100))
+where l.company is not null
+on conflict do nothing;
+
+alter table public.user_game_logs drop column if exists company;
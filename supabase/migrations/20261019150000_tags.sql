@@ -0,0 +1,37 @@
+-- User-defined tags ("birthday", "rain delay", "walk-off") on diary entries
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(trim(name)) between 1 and 30),
+  created_at timestamptz default now()
+);
+
+create unique index if not exists tags_user_id_name_key on public.tags (user_id, lower(name));
+
+create table if not exists public.game_log_tags (
+  game_log_id uuid not null references public.user_game_logs (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz default now(),
+  primary key (game_log_id, tag_id)
+);
+
+create index if not exists game_log_tags_tag_id_idx on public.game_log_tags (tag_id);
+
+alter table public.tags enable row level security;
+alter table public.game_log_tags enable row level security;
+
+create policy "Users can manage their own tags"
+  on public.tags for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can manage tags on their own game logs"
+  on public.game_log_tags for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.user_game_logs l where l.id = game_log_id and l.user_id = auth.uid())
+    and exists (select 1 from public.tags t where t.id = tag_id and t.user_id = auth.uid())
+  );
@@ -0,0 +1,82 @@
+-- Multiple deliberate viewings per game, and a one-off merge of accidental duplicates
+
+alter table public.user_game_logs
+  add column if not exists visit_number smallint not null default 1 check (visit_number between 1 and 20);
+
+-- Entries for the same game with the same mode are treated as accidental duplicates
+-- and folded into the earliest one. Entries with different modes (attended, then
+-- re-watched) are kept as separate viewings.
+create temporary table game_log_merges on commit drop as
+select id as duplicate_id, keeper_id
+from (
+  select
+    id,
+    first_value(id) over (partition by user_id, game_id, mode order by created_at nulls last, id) as keeper_id
+  from public.user_game_logs
+) ranked
+where id <> keeper_id;
+
+-- Keep the keeper's values, filling gaps from the most recently edited duplicate
+update public.user_game_logs k
+set
+  rating = coalesce(k.rating, d.rating),
+  rooted_for = coalesce(k.rooted_for, d.rooted_for),
+  notes = nullif(left(concat_ws(E'\n\n', k.notes, d.notes), 1000), ''),
+  seat_section = coalesce(k.seat_section, d.seat_section),
+  seat_row = coalesce(k.seat_row, d.seat_row),
+  seat_number = coalesce(k.seat_number, d.seat_number),
+  ticket_price = coalesce(k.ticket_price, d.ticket_price),
+  ticket_source = coalesce(k.ticket_source, d.ticket_source),
+  updated_at = now()
+from (
+  select
+    m.keeper_id,
+    (array_agg(l.rating order by l.updated_at desc nulls last) filter (where l.rating is not null))[1] as rating,
+    (array_agg(l.rooted_for order by l.updated_at desc nulls last) filter (where l.rooted_for is not null))[1] as rooted_for,
+    string_agg(l.notes, E'\n\n' order by l.created_at)
+      filter (where nullif(trim(l.notes), '') is not null and l.notes is distinct from keeper.notes) as notes,
+    (array_agg(l.seat_section order by l.updated_at desc nulls last) filter (where l.seat_section is not null))[1] as seat_section,
+    (array_agg(l.seat_row order by l.updated_at desc nulls last) filter (where l.seat_row is not null))[1] as seat_row,
+    (array_agg(l.seat_number order by l.updated_at desc nulls last) filter (where l.seat_number is not null))[1] as seat_number,
+    (array_agg(l.ticket_price order by l.updated_at desc nulls last) filter (where l.ticket_price is not null))[1] as ticket_price,
+    (array_agg(l.ticket_source order by l.updated_at desc nulls last) filter (where l.ticket_source is not null))[1] as ticket_source
+  from game_log_merges m
+  join public.user_game_logs l on l.id = m.duplicate_id
+  join public.user_game_logs keeper on keeper.id = m.keeper_id
+  group by m.keeper_id
+) d
+where k.id = d.keeper_id;
+
+-- Move companions, tags and photos over to the surviving entry
+insert into public.game_log_companions (game_log_id, person_id, user_id)
+select m.keeper_id, c.person_id, c.user_id
+from public.game_log_companions c
+join game_log_merges m on m.duplicate_id = c.game_log_id
+on conflict do nothing;
+
+insert into public.game_log_tags (game_log_id, tag_id, user_id)
+select m.keeper_id, t.tag_id, t.user_id
+from public.game_log_tags t
+join game_log_merges m on m.duplicate_id = t.game_log_id
+on conflict do nothing;
+
+update public.game_log_photos p
+set game_log_id = m.keeper_id
+from game_log_merges m
+where p.game_log_id = m.duplicate_id;
+
+delete from public.user_game_logs
+where id in (select duplicate_id from game_log_merges);
+
+-- Number the remaining viewings of each game in the order they were logged
+update public.user_game_logs l
+set visit_number = numbered.visit_number
+from (
+  select id, row_number() over (partition by user_id, game_id order by created_at nulls last, id) as visit_number
+  from public.user_game_logs
+) numbered
+where l.id = numbered.id;
+
+-- Guards against double-submits racing past the client-side check
+create unique index if not exists user_game_logs_user_game_visit_key
+  on public.user_game_logs (user_id, game_id, visit_number);
@@ -0,0 +1,29 @@
+-- Soft delete for diary entries: removed entries sit in the trash until restored or purged
+
+alter table public.user_game_logs add column if not exists deleted_at timestamptz;
+
+create index if not exists user_game_logs_user_id_deleted_at_idx
+  on public.user_game_logs (user_id, deleted_at)
+  where deleted_at is not null;
+
+-- Entries that have been in the trash for more than 30 days are purged nightly by the
+-- purge-deleted-game-logs edge function, which removes their photo files through the Storage API.
+-- The project url and service role key are read from Vault secrets of the same names.
+create extension if not exists pg_cron with schema extensions;
+create extension if not exists pg_net with schema extensions;
+
+select cron.schedule(
+  'purge-deleted-game-logs',
+  '15 4 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/purge-deleted-game-logs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
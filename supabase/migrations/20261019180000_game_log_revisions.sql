@@ -0,0 +1,30 @@
+-- Revision history for diary entries: the previous values are saved each time an entry is edited
+
+create table if not exists public.game_log_revisions (
+  id uuid primary key default gen_random_uuid(),
+  game_log_id uuid not null references public.user_game_logs (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  mode public.log_mode not null,
+  rating smallint,
+  rooted_for text,
+  notes text,
+  -- Snapshot of companions as [{ "id": ..., "name": ... }] so names survive later renames or deletes
+  companions jsonb not null default '[]'::jsonb,
+  created_at timestamptz default now()
+);
+
+create index if not exists game_log_revisions_game_log_id_created_at_idx
+  on public.game_log_revisions (game_log_id, created_at desc);
+
+alter table public.game_log_revisions enable row level security;
+
+create policy "Users can view revisions of their own game logs"
+  on public.game_log_revisions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add revisions to their own game logs"
+  on public.game_log_revisions for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.user_game_logs l where l.id = game_log_id and l.user_id = auth.uid())
+  );
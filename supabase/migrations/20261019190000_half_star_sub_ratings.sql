@@ -0,0 +1,23 @@
+-- Half-star ratings and optional sub-ratings on diary entries
+
+alter table public.user_game_logs drop constraint if exists user_game_logs_rating_check;
+
+alter table public.user_game_logs
+  alter column rating type numeric(2,1) using rating::numeric(2,1);
+
+alter table public.user_game_logs
+  add constraint user_game_logs_rating_check
+    check (rating is null or (rating between 0.5 and 5 and rating * 2 = trunc(rating * 2)));
+
+alter table public.user_game_logs
+  add column if not exists game_quality_rating numeric(2,1)
+    check (game_quality_rating is null or (game_quality_rating between 0.5 and 5 and game_quality_rating * 2 = trunc(game_quality_rating * 2))),
+  add column if not exists atmosphere_rating numeric(2,1)
+    check (atmosphere_rating is null or (atmosphere_rating between 0.5 and 5 and atmosphere_rating * 2 = trunc(atmosphere_rating * 2))),
+  -- Only meaningful for games attended in person
+  add column if not exists ballpark_rating numeric(2,1)
+    check (ballpark_rating is null or (ballpark_rating between 0.5 and 5 and ballpark_rating * 2 = trunc(ballpark_rating * 2)));
+
+-- Revisions keep the overall rating, which can now be a half star
+alter table public.game_log_revisions
+  alter column rating type numeric(2,1) using rating::numeric(2,1);
@@ -0,0 +1,117 @@
+-- Admin import of Retrosheet game logs into mlb_schedule, for seasons the schedule feed doesn't cover
+
+-- Accounts allowed to load historical schedule data
+create table if not exists public.app_admins (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.app_admins enable row level security;
+
+create policy "Users can view their own admin status"
+  on public.app_admins for select
+  using (auth.uid() = user_id);
+
+create or replace function public.is_app_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.app_admins where user_id = auth.uid());
+$$;
+
+alter table public.mlb_schedule
+  add column if not exists retro_game_id text,
+  add column if not exists retro_park_id text;
+
+create unique index if not exists mlb_schedule_retro_game_id_key
+  on public.mlb_schedule (retro_game_id);
+
+-- Retrosheet games have no StatsAPI game id, so new ones are numbered downwards from -1
+create sequence if not exists public.mlb_schedule_retro_game_id_seq
+  increment by -1
+  maxvalue -1
+  start with -1;
+
+-- Upsert a batch of Retrosheet games. A game already imported is updated in place; a game the
+-- schedule feed already has (same date, teams and game number) is linked rather than duplicated.
+create or replace function public.import_retrosheet_games(games jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  game jsonb;
+  existing_id uuid;
+  inserted_count integer := 0;
+  updated_count integer := 0;
+begin
+  if not public.is_app_admin() then
+    raise exception 'Only admins can import schedule data';
+  end if;
+
+  for game in select * from jsonb_array_elements(games)
+  loop
+    select id into existing_id
+    from public.mlb_schedule
+    where retro_game_id = game->>'retro_game_id';
+
+    if existing_id is null then
+      select id into existing_id
+      from public.mlb_schedule
+      where game_date = (game->>'game_date')::date
+        and home_name = game->>'home_name'
+        and away_name = game->>'away_name'
+        and coalesce(game_num, 1) = (game->>'game_num')::integer
+      limit 1;
+    end if;
+
+    if existing_id is not null then
+      update public.mlb_schedule
+      set retro_game_id = game->>'retro_game_id',
+          retro_park_id = game->>'retro_park_id',
+          home_score = coalesce(home_score, (game->>'home_score')::integer),
+          away_score = coalesce(away_score, (game->>'away_score')::integer),
+          venue_name = coalesce(venue_name, game->>'venue_name'),
+          winning_team = coalesce(winning_team, game->>'winning_team'),
+          losing_team = coalesce(losing_team, game->>'losing_team')
+      where id = existing_id;
+      updated_count := updated_count + 1;
+    else
+      insert into public.mlb_schedule (
+        game_id, season, game_date, game_num, doubleheader, game_type, status,
+        home_name, away_name, home_score, away_score, venue_name,
+        winning_team, losing_team, retro_game_id, retro_park_id
+      ) values (
+        nextval('public.mlb_schedule_retro_game_id_seq'),
+        (game->>'season')::integer,
+        (game->>'game_date')::date,
+        (game->>'game_num')::integer,
+        game->>'doubleheader',
+        coalesce(game->>'game_type', 'R'),
+        'Final',
+        game->>'home_name',
+        game->>'away_name',
+        (game->>'home_score')::integer,
+        (game->>'away_score')::integer,
+        game->>'venue_name',
+        game->>'winning_team',
+        game->>'losing_team',
+        game->>'retro_game_id',
+        game->>'retro_park_id'
+      );
+      inserted_count := inserted_count + 1;
+    end if;
+
+    existing_id := null;
+  end loop;
+
+  return jsonb_build_object('inserted', inserted_count, 'updated', updated_count);
+end;
+$$;
+
+revoke all on function public.import_retrosheet_games(jsonb) from public, anon;
+grant execute on function public.import_retrosheet_games(jsonb) to authenticated;
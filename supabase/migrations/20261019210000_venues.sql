@@ -0,0 +1,114 @@
+-- Registry of ballparks keyed by StatsAPI venue_id, so a renamed park is still one venue
+
+create table if not exists public.venues (
+  venue_id integer primary key,
+  name text not null,
+  city text,
+  state text,
+  latitude double precision,
+  longitude double precision,
+  opened_year integer,
+  closed_year integer,
+  capacity integer,
+  home_team text,
+  former_names text[] not null default '{}',
+  retro_park_ids text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+alter table public.venues enable row level security;
+
+create policy "Anyone can view venues"
+  on public.venues for select
+  using (true);
+
+-- Parks that closed before StatsAPI ids were assigned are numbered downwards from -1,
+-- the same way Retrosheet-only games are
+insert into public.venues
+  (venue_id, name, city, state, latitude, longitude, opened_year, closed_year, capacity, home_team, former_names, retro_park_ids)
+values
+  (1, 'Angel Stadium', 'Anaheim', 'CA', 33.8003, -117.8827, 1966, null, 45517, 'LAA', '{"Angel Stadium of Anaheim","Edison International Field of Anaheim","Edison International Field","Anaheim Stadium"}', '{ANA01}'),
+  (2, 'Oriole Park at Camden Yards', 'Baltimore', 'MD', 39.2839, -76.6217, 1992, null, 44970, 'BAL', '{"Camden Yards"}', '{BAL12}'),
+  (3, 'Fenway Park', 'Boston', 'MA', 42.3467, -71.0972, 1912, null, 37755, 'BOS', '{}', '{BOS07}'),
+  (4, 'Rate Field', 'Chicago', 'IL', 41.8299, -87.6338, 1991, null, 40615, 'CWS', '{"Guaranteed Rate Field","U.S. Cellular Field","New Comiskey Park","Comiskey Park"}', '{CHI12}'),
+  (5, 'Progressive Field', 'Cleveland', 'OH', 41.4962, -81.6852, 1994, null, 34830, 'CLE', '{"Jacobs Field"}', '{CLE08}'),
+  (7, 'Kauffman Stadium', 'Kansas City', 'MO', 39.0517, -94.4803, 1973, null, 37903, 'KC', '{"Royals Stadium"}', '{KAN06}'),
+  (12, 'Tropicana Field', 'St. Petersburg', 'FL', 27.7682, -82.6534, 1998, null, 25000, 'TB', '{}', '{STP01}'),
+  (14, 'Rogers Centre', 'Toronto', 'ON', 43.6414, -79.3894, 1989, null, 39150, 'TOR', '{"SkyDome"}', '{TOR02}'),
+  (15, 'Chase Field', 'Phoenix', 'AZ', 33.4455, -112.0667, 1998, null, 48405, 'ARI', '{"Bank One Ballpark"}', '{PHO01}'),
+  (17, 'Wrigley Field', 'Chicago', 'IL', 41.9484, -87.6553, 1914, null, 41649, 'CHC', '{}', '{CHI11}'),
+  (19, 'Coors Field', 'Denver', 'CO', 39.7559, -104.9942, 1995, null, 50144, 'COL', '{}', '{DEN02}'),
+  (22, 'Dodger Stadium', 'Los Angeles', 'CA', 34.0739, -118.2400, 1962, null, 56000, 'LAD', '{}', '{LOS03}'),
+  (31, 'PNC Park', 'Pittsburgh', 'PA', 40.4469, -80.0057, 2001, null, 38747, 'PIT', '{}', '{PIT08}'),
+  (32, 'American Family Field', 'Milwaukee', 'WI', 43.0280, -87.9712, 2001, null, 41900, 'MIL', '{"Miller Park"}', '{MIL06}'),
+  (680, 'T-Mobile Park', 'Seattle', 'WA', 47.5914, -122.3325, 1999, null, 47929, 'SEA', '{"Safeco Field"}', '{SEA03}'),
+  (2392, 'Daikin Park', 'Houston', 'TX', 29.7573, -95.3555, 2000, null, 41168, 'HOU', '{"Minute Maid Park","Astros Field","Enron Field"}', '{HOU03}'),
+  (2394, 'Comerica Park', 'Detroit', 'MI', 42.3390, -83.0485, 2000, null, 41083, 'DET', '{}', '{DET05}'),
+  (2395, 'Oracle Park', 'San Francisco', 'CA', 37.7786, -122.3893, 2000, null, 41915, 'SF', '{"AT&T Park","SBC Park","Pacific Bell Park"}', '{SFO03}'),
+  (2529, 'Sutter Health Park', 'West Sacramento', 'CA', 38.5804, -121.5136, 2025, null, 14014, 'OAK', '{"Raley Field"}', '{SAC01}'),
+  (2602, 'Great American Ball Park', 'Cincinnati', 'OH', 39.0975, -84.5071, 2003, null, 42319, 'CIN', '{}', '{CIN09}'),
+  (2680, 'Petco Park', 'San Diego', 'CA', 32.7076, -117.1570, 2004, null, 40209, 'SD', '{"PETCO Park"}', '{SAN02}'),
+  (2681, 'Citizens Bank Park', 'Philadelphia', 'PA', 39.9061, -75.1665, 2004, null, 42901, 'PHI', '{}', '{PHI13}'),
+  (2889, 'Busch Stadium', 'St. Louis', 'MO', 38.6226, -90.1928, 2006, null, 44494, 'STL', '{}', '{STL10}'),
+  (3289, 'Citi Field', 'Queens', 'NY', 40.7571, -73.8458, 2009, null, 41922, 'NYM', '{}', '{NYC20}'),
+  (3309, 'Nationals Park', 'Washington', 'DC', 38.8730, -77.0074, 2008, null, 41339, 'WSH', '{}', '{WAS11}'),
+  (3312, 'Target Field', 'Minneapolis', 'MN', 44.9817, -93.2776, 2010, null, 38544, 'MIN', '{}', '{MIN04}'),
+  (3313, 'Yankee Stadium', 'Bronx', 'NY', 40.8296, -73.9262, 2009, null, 46537, 'NYY', '{}', '{NYC21}'),
+  (4169, 'loanDepot park', 'Miami', 'FL', 25.7781, -80.2197, 2012, null, 37446, 'MIA', '{"Marlins Park"}', '{MIA02}'),
+  (4705, 'Truist Park', 'Atlanta', 'GA', 33.8908, -84.4678, 2017, null, 41084, 'ATL', '{"SunTrust Park"}', '{ATL03}'),
+  (5325, 'Globe Life Field', 'Arlington', 'TX', 32.7473, -97.0845, 2020, null, 40300, 'TEX', '{}', '{ARL03}'),
+  (10, 'Oakland Coliseum', 'Oakland', 'CA', 37.7516, -122.2005, 1968, 2024, 46847, 'OAK', '{"RingCentral Coliseum","Oakland-Alameda County Coliseum","O.co Coliseum","Overstock.com Coliseum","McAfee Coliseum","Network Associates Coliseum"}', '{OAK01}'),
+  (2523, 'George M. Steinbrenner Field', 'Tampa', 'FL', 27.9803, -82.5067, 2025, 2025, 11026, 'TB', '{"Steinbrenner Field","Legends Field"}', '{}'),
+  (13, 'Globe Life Park in Arlington', 'Arlington', 'TX', 32.7512, -97.0832, 1994, 2019, 48114, 'TEX', '{"Rangers Ballpark in Arlington","Ameriquest Field","The Ballpark in Arlington"}', '{ARL02}'),
+  (16, 'Turner Field', 'Atlanta', 'GA', 33.7350, -84.3900, 1997, 2016, 49586, 'ATL', '{}', '{ATL02}'),
+  (-1, 'Sun Life Stadium', 'Miami Gardens', 'FL', 25.9580, -80.2389, 1993, 2011, 36331, 'MIA', '{"Land Shark Stadium","Dolphin Stadium","Pro Player Stadium","Joe Robbie Stadium"}', '{MIA01}'),
+  (-2, 'Hubert H. Humphrey Metrodome', 'Minneapolis', 'MN', 44.9736, -93.2575, 1982, 2009, 46564, 'MIN', '{"Metrodome"}', '{MIN03}'),
+  (-3, 'Shea Stadium', 'Queens', 'NY', 40.7559, -73.8480, 1964, 2008, 57333, 'NYM', '{}', '{NYC17}'),
+  (-4, 'Yankee Stadium (1923)', 'Bronx', 'NY', 40.8275, -73.9283, 1923, 2008, 57545, 'NYY', '{"Yankee Stadium"}', '{NYC16}'),
+  (-5, 'Busch Stadium II', 'St. Louis', 'MO', 38.6245, -90.1927, 1966, 2005, 50345, 'STL', '{"Busch Stadium","Busch Memorial Stadium"}', '{STL09}'),
+  (-6, 'Stade Olympique', 'Montreal', 'QC', 45.5580, -73.5519, 1977, 2004, 46500, 'MON', '{"Olympic Stadium"}', '{MON02}'),
+  (-7, 'Veterans Stadium', 'Philadelphia', 'PA', 39.9069, -75.1711, 1971, 2003, 62418, 'PHI', '{}', '{PHI12}'),
+  (-8, 'Qualcomm Stadium', 'San Diego', 'CA', 32.7831, -117.1196, 1969, 2003, 56133, 'SD', '{"Jack Murphy Stadium","San Diego Stadium"}', '{SAN01}'),
+  (-9, 'Cinergy Field', 'Cincinnati', 'OH', 39.0964, -84.5105, 1970, 2002, 39000, 'CIN', '{"Riverfront Stadium"}', '{CIN07}'),
+  (-10, 'Milwaukee County Stadium', 'Milwaukee', 'WI', 43.0303, -87.9750, 1953, 2000, 53192, 'MIL', '{"County Stadium"}', '{MIL05}'),
+  (-11, 'Three Rivers Stadium', 'Pittsburgh', 'PA', 40.4467, -80.0158, 1970, 2000, 47952, 'PIT', '{}', '{PIT07}'),
+  (-12, 'Astrodome', 'Houston', 'TX', 29.6847, -95.4078, 1965, 1999, 54370, 'HOU', '{}', '{HOU02}'),
+  (-13, 'Kingdome', 'Seattle', 'WA', 47.5952, -122.3316, 1977, 1999, 59166, 'SEA', '{}', '{SEA02}'),
+  (-14, 'Candlestick Park', 'San Francisco', 'CA', 37.7136, -122.3863, 1960, 1999, 58000, 'SF', '{"3Com Park"}', '{SFO02}'),
+  (-15, 'Tiger Stadium', 'Detroit', 'MI', 42.3319, -83.0689, 1912, 1999, 52416, 'DET', '{}', '{DET04}'),
+  (-16, 'Atlanta-Fulton County Stadium', 'Atlanta', 'GA', 33.7396, -84.3894, 1966, 1996, 52007, 'ATL', '{}', '{ATL01}'),
+  (-17, 'Mile High Stadium', 'Denver', 'CO', 39.7447, -105.0208, 1993, 1994, 76037, 'COL', '{}', '{DEN01}'),
+  (-18, 'Arlington Stadium', 'Arlington', 'TX', 32.7514, -97.0786, 1972, 1993, 43521, 'TEX', '{}', '{ARL01}'),
+  (-19, 'Cleveland Stadium', 'Cleveland', 'OH', 41.5061, -81.6994, 1932, 1993, 74483, 'CLE', '{"Cleveland Municipal Stadium"}', '{CLE07}'),
+  (-20, 'Memorial Stadium', 'Baltimore', 'MD', 39.3289, -76.6017, 1954, 1991, 54076, 'BAL', '{}', '{BAL11}'),
+  (-21, 'Comiskey Park (1910)', 'Chicago', 'IL', 41.8314, -87.6342, 1910, 1990, 43951, 'CWS', '{"Comiskey Park"}', '{CHI10}'),
+  (-22, 'Exhibition Stadium', 'Toronto', 'ON', 43.6336, -79.4186, 1977, 1989, 43737, 'TOR', '{}', '{TOR01}'),
+  (-23, 'Jarry Park', 'Montreal', 'QC', 45.5347, -73.6267, 1969, 1976, 28456, 'MON', '{}', '{MON01}')
+on conflict (venue_id) do nothing;
+
+-- Retrosheet rows carry a park id but no venue_id; fill it in from the registry
+create or replace function public.set_schedule_venue_from_retro_park()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.venue_id is null and new.retro_park_id is not null then
+    select venue_id into new.venue_id
+    from public.venues
+    where new.retro_park_id = any(retro_park_ids)
+    limit 1;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger mlb_schedule_venue_from_retro_park
+  before insert or update of retro_park_id on public.mlb_schedule
+  for each row execute function public.set_schedule_venue_from_retro_park();
+
+update public.mlb_schedule s
+set venue_id = v.venue_id
+from public.venues v
+where s.venue_id is null
+  and s.retro_park_id = any(v.retro_park_ids);
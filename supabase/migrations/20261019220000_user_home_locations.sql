@@ -0,0 +1,16 @@
+-- Where a user travels from, for distance and road-trip stats
+
+create table if not exists public.user_home_locations (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  label text not null check (char_length(trim(label)) between 1 and 100),
+  latitude double precision not null check (latitude between -90 and 90),
+  longitude double precision not null check (longitude between -180 and 180),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_home_locations enable row level security;
+
+create policy "Users can manage their own home location"
+  on public.user_home_locations for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,49 @@
+-- Named trips that group diary entries, with notes that belong to the trip rather than one game
+
+create table if not exists public.trips (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(trim(name)) between 1 and 100),
+  start_date date not null,
+  end_date date not null,
+  notes text check (char_length(notes) <= 5000),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (end_date >= start_date)
+);
+
+create index if not exists trips_user_id_idx on public.trips (user_id, start_date desc);
+
+alter table public.trips enable row level security;
+
+create policy "Users can manage their own trips"
+  on public.trips for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- An entry belongs to at most one trip; deleting the trip keeps the entries
+alter table public.user_game_logs
+  add column if not exists trip_id uuid references public.trips (id) on delete set null;
+
+-- A log can only join a trip owned by the same user
+create or replace function public.check_game_log_trip_owner()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.trip_id is not null and not exists (
+    select 1 from public.trips t
+    where t.id = new.trip_id and t.user_id = new.user_id
+  ) then
+    raise exception 'Trip not found';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger user_game_logs_check_trip_owner
+  before insert or update of trip_id, user_id on public.user_game_logs
+  for each row execute function public.check_game_log_trip_owner();
+
+create index if not exists user_game_logs_trip_id_idx on public.user_game_logs (trip_id);
@@ -0,0 +1,229 @@
+-- Restore a diary backup in one transaction, so a failure part-way never leaves an account half-restored
+
+-- Restore a backup into the signed-in account. Entry ids are regenerated so a backup can move between
+-- accounts. Games missing from the schedule are added from the backup's snapshot; schedule rows that
+-- already exist are never changed.
+create or replace function public.restore_diary_backup(backup jsonb, strategy text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  entry jsonb;
+  game_log public.user_game_logs;
+  existing public.user_game_logs;
+  entry_id uuid;
+  game_id_value bigint;
+  next_visit integer;
+  trip jsonb;
+  trip_id_value uuid;
+  trip_ids jsonb := '{}'::jsonb;
+  restored_ids uuid[] := '{}';
+  restored_games integer := 0;
+  added_count integer := 0;
+  replaced_count integer := 0;
+  skipped_count integer := 0;
+  missing_games text[] := '{}';
+begin
+  if uid is null then
+    raise exception 'Must be authenticated to restore a backup';
+  end if;
+  if strategy not in ('skip', 'replace', 'keep_both') then
+    raise exception 'Unknown conflict strategy: %', strategy;
+  end if;
+
+  -- Schedule rows the entries point at but this schedule doesn't have
+  insert into public.mlb_schedule (
+    game_id, season, game_date, game_datetime, game_num, doubleheader, game_type, status,
+    home_id, home_name, away_id, away_name, home_score, away_score, venue_id, venue_name,
+    winning_team, losing_team, winning_pitcher, losing_pitcher, save_pitcher, summary,
+    home_probable_pitcher, away_probable_pitcher, home_pitcher_note, away_pitcher_note,
+    current_inning, inning_state, retro_game_id, retro_park_id
+  )
+  select
+    g.game_id, g.season, g.game_date, g.game_datetime, g.game_num, g.doubleheader, g.game_type, g.status,
+    g.home_id, g.home_name, g.away_id, g.away_name, g.home_score, g.away_score, g.venue_id, g.venue_name,
+    g.winning_team, g.losing_team, g.winning_pitcher, g.losing_pitcher, g.save_pitcher, g.summary,
+    g.home_probable_pitcher, g.away_probable_pitcher, g.home_pitcher_note, g.away_pitcher_note,
+    g.current_inning, g.inning_state, g.retro_game_id, g.retro_park_id
+  from jsonb_array_elements(coalesce(backup->'games', '[]'::jsonb)) snapshot
+  cross join lateral jsonb_populate_record(null::public.mlb_schedule, snapshot.value - 'id' - 'created_at') g
+  where g.game_id is not null
+    and g.season is not null
+    and g.game_id::text in (select e->>'game_id' from jsonb_array_elements(backup->'entries') e)
+    and not exists (select 1 from public.mlb_schedule s where s.game_id = g.game_id)
+  on conflict do nothing;
+
+  get diagnostics restored_games = row_count;
+
+  -- People and tags are matched by name, case-insensitively
+  insert into public.people (user_id, name)
+  select distinct on (lower(name)) uid, name
+  from (
+    select left(trim(value), 100) as name
+    from jsonb_array_elements_text(coalesce(backup->'people', '[]'::jsonb))
+    union all
+    select left(trim(c.value), 100)
+    from jsonb_array_elements(backup->'entries') e
+    cross join lateral jsonb_array_elements_text(coalesce(e->'companions', '[]'::jsonb)) c
+  ) names
+  where name <> ''
+  on conflict do nothing;
+
+  insert into public.tags (user_id, name)
+  select distinct uid, name
+  from (
+    select lower(left(trim(value), 30)) as name
+    from jsonb_array_elements_text(coalesce(backup->'tags', '[]'::jsonb))
+    union all
+    select lower(left(trim(t.value), 30))
+    from jsonb_array_elements(backup->'entries') e
+    cross join lateral jsonb_array_elements_text(coalesce(e->'tags', '[]'::jsonb)) t
+  ) names
+  where name <> ''
+  on conflict do nothing;
+
+  -- Trips are matched by name and dates
+  for trip in select value from jsonb_array_elements(coalesce(backup->'trips', '[]'::jsonb))
+  loop
+    select id into trip_id_value
+    from public.trips
+    where user_id = uid
+      and lower(trim(name)) = lower(trim(trip->>'name'))
+      and start_date = (trip->>'start_date')::date
+      and end_date = (trip->>'end_date')::date
+    limit 1;
+
+    if trip_id_value is null then
+      insert into public.trips (user_id, name, start_date, end_date, notes)
+      values (uid, trip->>'name', (trip->>'start_date')::date, (trip->>'end_date')::date, trip->>'notes')
+      returning id into trip_id_value;
+    end if;
+
+    trip_ids := trip_ids || jsonb_build_object(trip->>'id', trip_id_value);
+  end loop;
+
+  for entry in select value from jsonb_array_elements(backup->'entries')
+  loop
+    game_log := jsonb_populate_record(null::public.user_game_logs, entry - 'id' - 'user_id' - 'trip_id');
+    game_log.trip_id := (trip_ids->>(entry->>'trip_id'))::uuid;
+    game_id_value := case when game_log.game_id ~ '^-?\d{1,18}$' then game_log.game_id::bigint end;
+
+    if game_id_value is null or not exists (select 1 from public.mlb_schedule where game_id = game_id_value) then
+      missing_games := array_append(missing_games, game_log.game_id);
+      continue;
+    end if;
+
+    -- The same entry (restoring into the original account) or the same viewing of the game.
+    -- Entries added by this restore don't count.
+    entry_id := case
+      when entry->>'id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then (entry->>'id')::uuid
+    end;
+    select * into existing
+    from public.user_game_logs
+    where user_id = uid
+      and id <> all (restored_ids)
+      and (id = entry_id or (game_id = game_log.game_id and visit_number = game_log.visit_number))
+    order by coalesce(id = entry_id, false) desc
+    limit 1;
+
+    if existing.id is not null and strategy = 'skip' then
+      skipped_count := skipped_count + 1;
+      continue;
+    end if;
+
+    if existing.id is not null and strategy = 'replace' then
+      insert into public.game_log_revisions (game_log_id, user_id, mode, rating, rooted_for, notes, companions)
+      values (
+        existing.id, uid, existing.mode, existing.rating, existing.rooted_for, existing.notes,
+        coalesce((
+          select jsonb_agg(jsonb_build_object('id', p.id, 'name', p.name) order by p.name)
+          from public.game_log_companions c
+          join public.people p on p.id = c.person_id
+          where c.game_log_id = existing.id
+        ), '[]'::jsonb)
+      );
+
+      update public.user_game_logs
+      set game_id = game_log.game_id,
+          mode = game_log.mode,
+          rating = game_log.rating,
+          game_quality_rating = game_log.game_quality_rating,
+          atmosphere_rating = game_log.atmosphere_rating,
+          ballpark_rating = game_log.ballpark_rating,
+          rooted_for = game_log.rooted_for,
+          notes = game_log.notes,
+          seat_section = game_log.seat_section,
+          seat_row = game_log.seat_row,
+          seat_number = game_log.seat_number,
+          ticket_price = game_log.ticket_price,
+          ticket_source = game_log.ticket_source,
+          trip_id = game_log.trip_id,
+          created_at = game_log.created_at,
+          updated_at = game_log.updated_at,
+          deleted_at = game_log.deleted_at
+      where id = existing.id
+        and user_id = uid;
+
+      game_log.id := existing.id;
+      replaced_count := replaced_count + 1;
+    else
+      -- New entries keep their viewing number when it's free, otherwise become the next viewing
+      if exists (
+        select 1 from public.user_game_logs
+        where user_id = uid and game_id = game_log.game_id and visit_number = game_log.visit_number
+      ) then
+        select max(visit_number) + 1 into next_visit
+        from public.user_game_logs
+        where user_id = uid and game_id = game_log.game_id;
+
+        if next_visit > 20 then
+          skipped_count := skipped_count + 1;
+          continue;
+        end if;
+        game_log.visit_number := next_visit;
+      end if;
+
+      game_log.id := gen_random_uuid();
+      insert into public.user_game_logs (
+        id, user_id, game_id, mode, rating, game_quality_rating, atmosphere_rating, ballpark_rating,
+        rooted_for, notes, seat_section, seat_row, seat_number, ticket_price, ticket_source,
+        visit_number, trip_id, created_at, updated_at, deleted_at
+      ) values (
+        game_log.id, uid, game_log.game_id, game_log.mode, game_log.rating, game_log.game_quality_rating, game_log.atmosphere_rating, game_log.ballpark_rating,
+        game_log.rooted_for, game_log.notes, game_log.seat_section, game_log.seat_row, game_log.seat_number, game_log.ticket_price, game_log.ticket_source,
+        game_log.visit_number, game_log.trip_id, game_log.created_at, game_log.updated_at, game_log.deleted_at
+      );
+
+      restored_ids := array_append(restored_ids, game_log.id);
+      added_count := added_count + 1;
+    end if;
+
+    -- Entries take the companions and tags from the backup
+    delete from public.game_log_companions where game_log_id = game_log.id;
+    insert into public.game_log_companions (game_log_id, person_id, user_id)
+    select distinct game_log.id, p.id, uid
+    from jsonb_array_elements_text(coalesce(entry->'companions', '[]'::jsonb)) c
+    join public.people p on p.user_id = uid and lower(p.name) = lower(left(trim(c.value), 100));
+
+    delete from public.game_log_tags where game_log_id = game_log.id;
+    insert into public.game_log_tags (game_log_id, tag_id, user_id)
+    select distinct game_log.id, t.id, uid
+    from jsonb_array_elements_text(coalesce(entry->'tags', '[]'::jsonb)) tag
+    join public.tags t on t.user_id = uid and lower(t.name) = lower(left(trim(tag.value), 30));
+  end loop;
+
+  return jsonb_build_object(
+    'added', added_count,
+    'replaced', replaced_count,
+    'skipped', skipped_count,
+    'restoredGames', restored_games,
+    'missingGames', to_jsonb(array(select distinct unnest(missing_games)))
+  );
+end;
+$$;
+
+revoke all on function public.restore_diary_backup(jsonb, text) from public, anon;
+grant execute on function public.restore_diary_backup(jsonb, text) to authenticated;